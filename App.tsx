@@ -1,31 +1,136 @@
-import React, { useState } from 'react';
-import { SignedIn, SignedOut, SignInButton, UserButton, useUser } from '@clerk/clerk-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { SignedIn, SignedOut, SignInButton, UserButton, useAuth, useUser } from '@clerk/clerk-react';
 import SessionSetup from './components/SessionSetup';
 import ConceptMap from './components/ConceptMap';
 import LearningGame from './components/LearningGame';
 import SummaryView from './components/SummaryView';
 import MyNotes from './components/MyNotes';
+import AISettingsPanel from './components/AISettingsPanel';
+import UsagePanel from './components/UsagePanel';
+import ReviewQueue from './components/ReviewQueue';
 import { Concept } from './types';
-import { Brain, LogOut, FileText, BookOpen } from 'lucide-react';
+import { fetchBudgetStatus, setAuthTokenProvider } from './services/aiService';
+import { BudgetStatus } from './services/aiCost';
+import { validateConceptGraph, ConceptGraphReport } from './services/conceptGraph';
+import { attributeUsageTo, setUsageUser, subscribeToUsage } from './services/usageService';
+import { getUserSessions, saveSession, SavedSession } from './services/supabaseService';
+import { getDueReviews, getEffectiveMastery } from './services/spacedRepetition';
+import { getLockedConcepts, getUnlockSettings, MASTERY_LEVEL_LABELS, saveUnlockSettings, UNLOCK_THRESHOLD_OPTIONS, UnlockSettings } from './services/unlocking';
+import { formatPercent, getGradingSettings, GradingSettings, PASS_THRESHOLD_OPTIONS, saveGradingSettings } from './services/grading';
+import { Brain, LogOut, FileText, BookOpen, Settings, AlertTriangle, X, Gauge, CalendarClock } from 'lucide-react';
+
+// A stored graph may predate the integrity checks or have been edited outside the app
+const validateSavedSession = (saved: SavedSession): SavedSession => {
+  const report = validateConceptGraph(saved.concepts || []);
+  if (report.changes.length > 0) {
+    console.warn(`Concept graph of "${saved.title}" repaired:`, report.changes.map(change => change.message));
+  }
+  return { ...saved, concepts: report.concepts };
+};
 
 enum ViewState {
   SETUP,
   LEARNING,
   SUMMARY,
-  MY_NOTES
+  MY_NOTES,
+  REVIEW
 }
 
+// Progress is saved this long after the last change, so a burst of answers is one write
+const SESSION_SAVE_DELAY_MS = 1000;
+
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>(ViewState.SETUP);
   const [concepts, setConcepts] = useState<Concept[]>([]);
   const [selectedConcept, setSelectedConcept] = useState<Concept | null>(null);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [graphReport, setGraphReport] = useState<ConceptGraphReport | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [unlockSettings, setUnlockSettings] = useState<UnlockSettings>(getUnlockSettings());
+  const [gradingSettings, setGradingSettings] = useState<GradingSettings>(getGradingSettings());
+  const [session, setSession] = useState<{ id: string; title: string } | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
   const { user } = useUser();
+  const { getToken } = useAuth();
+
+  // The AI gateway verifies the Clerk session on every request
+  useEffect(() => {
+    setAuthTokenProvider(() => getToken());
+  }, [getToken]);
+
+  // Usage is recorded per user, and the navbar reflects the gateway's budget as calls complete
+  useEffect(() => {
+    setUsageUser(user?.id ?? null);
+    if (!user?.id) return;
+    const refreshBudget = () => {
+      fetchBudgetStatus().then(setBudget).catch(() => setBudget(null));
+    };
+    refreshBudget();
+    return subscribeToUsage(refreshBudget);
+  }, [user?.id]);
 
-  const startSession = (extractedConcepts: Concept[]) => {
-    setConcepts(extractedConcepts);
+  // AI calls count toward the session being studied
+  useEffect(() => {
+    if (session) return attributeUsageTo(session);
+  }, [session]);
+
+  // Earlier sessions supply the concepts for review mode; stored graphs pass the same checks as new ones
+  useEffect(() => {
+    setSavedSessions([]);
+    if (user?.id) getUserSessions(user.id).then(sessions => setSavedSessions(sessions.map(validateSavedSession)));
+  }, [user?.id]);
+
+  // Persist progress, including review schedules, of the current session
+  useEffect(() => {
+    if (!user || !session || concepts.length === 0) return;
+    const timer = setTimeout(() => saveSession(user.id, { ...session, concepts }), SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [concepts, session, user?.id]);
+
+  // Every graph passes the integrity checks before a session uses it
+  const startSession = (extractedConcepts: Concept[], started: { id: string; title: string }) => {
+    const report = validateConceptGraph(extractedConcepts);
+    if (report.changes.length > 0) {
+      console.warn('Concept graph repaired:', report.changes.map(change => change.message));
+    }
+    setConcepts(report.concepts);
+    setGraphReport(report.changes.length > 0 || report.orphanIds.length > 0 ? report : null);
+    setSelectedConcept(null);
+    setSession(started);
     setView(ViewState.LEARNING);
   };
 
+  // Recomputed only when progress or the settings change, since the map redraws on a new value
+  const lockedConcepts = useMemo(() => getLockedConcepts(concepts, unlockSettings), [concepts, unlockSettings]);
+
+  const updateUnlockSettings = (settings: UnlockSettings) => {
+    saveUnlockSettings(settings);
+    setUnlockSettings(settings);
+  };
+
+  const updateGradingSettings = (settings: GradingSettings) => {
+    saveGradingSettings(settings);
+    setGradingSettings(settings);
+  };
+
+  // The current session's in-memory state supersedes its last saved copy
+  const reviewSessions = useMemo(() => [
+    ...(session ? [{ ...session, concepts }] : []),
+    ...savedSessions.filter(saved => saved.id !== session?.id),
+  ], [session, concepts, savedSessions]);
+  const dueReviewCount = useMemo(() => getDueReviews(reviewSessions).length, [reviewSessions]);
+
+  const updateReviewedConcept = (sessionId: string, updated: Concept) => {
+    if (sessionId === session?.id) return updateConcept(updated);
+
+    const saved = savedSessions.find(s => s.id === sessionId);
+    if (!saved) return;
+    const updatedSession = { ...saved, concepts: saved.concepts.map(c => c.id === updated.id ? updated : c) };
+    setSavedSessions(savedSessions.map(s => s.id === sessionId ? updatedSession : s));
+    if (user) saveSession(user.id, updatedSession);
+  };
+
   const updateConcept = (updated: Concept) => {
     const newConcepts = concepts.map(c => c.id === updated.id ? updated : c);
     setConcepts(newConcepts);
@@ -86,12 +191,46 @@ const App: React.FC = () => {
                     Finish & Summary
                   </button>
                 )}
+                <button
+                  onClick={() => setView(ViewState.REVIEW)}
+                  className="text-sm font-medium text-slate-600 hover:text-slate-900 flex items-center"
+                >
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  Reviews
+                  {dueReviewCount > 0 && (
+                    <span className="ml-1.5 px-1.5 py-0.5 text-[10px] font-bold bg-slate-900 text-white rounded-full">{dueReviewCount}</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setShowUsage(true)}
+                  className={`text-sm font-medium flex items-center ${budget?.state === 'exceeded'
+                    ? 'text-red-600 hover:text-red-800'
+                    : budget?.state === 'warning' ? 'text-amber-600 hover:text-amber-800' : 'text-slate-600 hover:text-slate-900'
+                    }`}
+                  title={budget?.limit != null ? `${Math.round((budget.spent / budget.limit) * 100)}% of monthly AI budget used` : undefined}
+                >
+                  <Gauge className="w-4 h-4 mr-2" />
+                  Usage
+                  {(budget?.state === 'warning' || budget?.state === 'exceeded') && (
+                    <AlertTriangle className="w-3.5 h-3.5 ml-1" />
+                  )}
+                </button>
+                <button
+                  onClick={() => setShowAISettings(true)}
+                  className="text-sm font-medium text-slate-600 hover:text-slate-900 flex items-center"
+                >
+                  <Settings className="w-4 h-4 mr-2" />
+                  AI Settings
+                </button>
                 <div className="h-6 w-px bg-slate-200"></div>
                 <UserButton afterSignOutUrl="/" />
               </div>
             </div>
           </nav>
 
+          {showAISettings && <AISettingsPanel onClose={() => setShowAISettings(false)} />}
+          {showUsage && <UsagePanel budget={budget} onClose={() => setShowUsage(false)} />}
+
           {/* Main Content */}
           <main className="flex-1 max-w-7xl w-full mx-auto p-6">
             {view === ViewState.SETUP && (
@@ -106,16 +245,88 @@ const App: React.FC = () => {
                     <div className="mb-4 flex justify-between items-center">
                       <h2 className="text-lg font-bold text-slate-800">Concept Graph</h2>
                       <span className="text-xs text-slate-400 bg-white border border-slate-200 px-2 py-1 rounded-full">
-                        {concepts.filter(c => c.masteryLevel === 4).length} / {concepts.length} Mastered
+                        {concepts.filter(c => getEffectiveMastery(c) === 4).length} / {concepts.length} Mastered
                       </span>
                     </div>
+                    {graphReport && (
+                      <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-xl text-xs text-amber-800">
+                        <div className="flex justify-between items-start gap-2">
+                          <div className="flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <div className="space-y-1">
+                              {graphReport.changes.length > 0 && (
+                                <details>
+                                  <summary className="cursor-pointer font-semibold">
+                                    The concept graph was repaired ({graphReport.changes.length} change{graphReport.changes.length > 1 ? 's' : ''})
+                                  </summary>
+                                  <ul className="mt-1 ml-4 list-disc space-y-0.5">
+                                    {graphReport.changes.map((change, idx) => (
+                                      <li key={idx}>{change.message}</li>
+                                    ))}
+                                  </ul>
+                                </details>
+                              )}
+                              {graphReport.orphanIds.length > 0 && (
+                                <p>
+                                  Not connected to any other concept: {graphReport.orphanIds.map(id => concepts.find(c => c.id === id)?.title).join(', ')}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                          <button onClick={() => setGraphReport(null)} className="text-amber-500 hover:text-amber-800" title="Dismiss">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
                     <ConceptMap
                       concepts={concepts}
                       onSelectConcept={setSelectedConcept}
                       selectedConceptId={selectedConcept?.id}
+                      lockedConcepts={lockedConcepts}
+                      unlockThreshold={unlockSettings.threshold}
                     />
-                    <div className="mt-4 p-4 bg-white rounded-xl border border-slate-200 text-sm text-slate-500 shadow-sm">
-                      <p>Tip: Click a node to begin the mastery game. Concepts must be unlocked sequentially.</p>
+                    <div className="mt-4 p-4 bg-white rounded-xl border border-slate-200 text-sm text-slate-500 shadow-sm space-y-3">
+                      <p>
+                        Tip: Click a node to begin the mastery game. {unlockSettings.unlockAll
+                          ? 'All concepts are unlocked.'
+                          : `A concept unlocks once each prerequisite reaches ${MASTERY_LEVEL_LABELS[unlockSettings.threshold]}.`}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-4 text-xs">
+                        <label className="flex items-center gap-2">
+                          Unlock at
+                          <select
+                            value={unlockSettings.threshold}
+                            onChange={(e) => updateUnlockSettings({ ...unlockSettings, threshold: Number(e.target.value) })}
+                            disabled={unlockSettings.unlockAll}
+                            className="px-2 py-1 border border-slate-200 rounded-md bg-white text-slate-700 disabled:opacity-50"
+                          >
+                            {UNLOCK_THRESHOLD_OPTIONS.map(level => (
+                              <option key={level} value={level}>{MASTERY_LEVEL_LABELS[level]}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="flex items-center gap-2" title="For instructors and reviewers: open any concept regardless of prerequisites">
+                          <input
+                            type="checkbox"
+                            checked={unlockSettings.unlockAll}
+                            onChange={(e) => updateUnlockSettings({ ...unlockSettings, unlockAll: e.target.checked })}
+                          />
+                          Unlock all concepts
+                        </label>
+                        <label className="flex items-center gap-2" title="Rubric score an answer needs to move up a level">
+                          Pass at
+                          <select
+                            value={gradingSettings.passThreshold}
+                            onChange={(e) => updateGradingSettings({ ...gradingSettings, passThreshold: Number(e.target.value) })}
+                            className="px-2 py-1 border border-slate-200 rounded-md bg-white text-slate-700"
+                          >
+                            {PASS_THRESHOLD_OPTIONS.map(threshold => (
+                              <option key={threshold} value={threshold}>{formatPercent(threshold)}</option>
+                            ))}
+                          </select>
+                        </label>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -126,7 +337,11 @@ const App: React.FC = () => {
                     <LearningGame
                       concept={selectedConcept}
                       allConcepts={concepts}
+                      missingPrerequisites={lockedConcepts.get(selectedConcept.id) ?? []}
+                      unlockThreshold={unlockSettings.threshold}
+                      passThreshold={gradingSettings.passThreshold}
                       onUpdateConcept={updateConcept}
+                      onSelectConcept={setSelectedConcept}
                       onClose={() => setSelectedConcept(null)}
                     />
                   </div>
@@ -141,6 +356,15 @@ const App: React.FC = () => {
               />
             )}
 
+            {view === ViewState.REVIEW && (
+              <ReviewQueue
+                sessions={reviewSessions}
+                passThreshold={gradingSettings.passThreshold}
+                onUpdateConcept={updateReviewedConcept}
+                onBack={() => setView(session ? ViewState.LEARNING : ViewState.SETUP)}
+              />
+            )}
+
             {view === ViewState.MY_NOTES && (
               <MyNotes onBack={() => setView(ViewState.SETUP)} />
             )}
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { fetchAIProviders, getAISettings, saveAISettings } from '../services/aiService';
+import { ProviderInfo } from '../services/aiProvider';
+import { Loader2, X, CheckCircle } from 'lucide-react';
+
+interface AISettingsPanelProps {
+  onClose: () => void;
+}
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ onClose }) => {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [provider, setProvider] = useState(getAISettings().provider || '');
+  const [model, setModel] = useState(getAISettings().model || '');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    fetchAIProviders()
+      .then(result => {
+        setProviders(result.providers);
+        setDefaultProvider(result.defaultProvider);
+      })
+      .catch(err => {
+        console.error('Failed to load AI providers:', err);
+        setError('Could not reach the AI server. Make sure it is running.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const selectedProvider = providers.find(p => p.id === provider);
+
+  const handleProviderChange = (id: string) => {
+    setProvider(id);
+    setModel('');
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    saveAISettings({ provider: provider || undefined, model: provider && model ? model : undefined });
+    setSaved(true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-slate-800">AI Settings</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center text-slate-400 py-8 justify-center">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Loading providers...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Provider</label>
+              <select
+                value={provider}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-slate-700 focus:ring-2 focus:ring-slate-400 focus:outline-none"
+              >
+                <option value="">Server default{defaultProvider && defaultProvider !== 'auto' ? ` (${defaultProvider})` : ''}</option>
+                {providers.map(p => (
+                  <option key={p.id} value={p.id} disabled={!p.configured}>
+                    {p.label}{p.configured ? '' : ' (not configured)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedProvider && (
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">Model</label>
+                <select
+                  value={model}
+                  onChange={(e) => { setModel(e.target.value); setSaved(false); }}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg text-slate-700 focus:ring-2 focus:ring-slate-400 focus:outline-none"
+                >
+                  <option value="">Default ({selectedProvider.defaultModel})</option>
+                  {selectedProvider.models.map(m => (
+                    <option key={m} value={m}>{m}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <p className="text-xs text-slate-400">
+              If the selected provider fails, requests fall back to the other configured providers.
+            </p>
+
+            <div className="flex justify-end items-center gap-3 pt-2">
+              {saved && (
+                <span className="flex items-center gap-1 text-emerald-600 text-sm font-medium">
+                  <CheckCircle className="w-4 h-4" />
+                  Saved
+                </span>
+              )}
+              <button
+                onClick={handleSave}
+                className="px-5 py-2 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsPanel;
@@ -1,17 +1,24 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { Concept, MasteryLevel } from '../types';
+import { formatSourceLocation } from '../services/sourceSegments';
+import { MASTERY_LEVEL_LABELS } from '../services/unlocking';
+import { getEffectiveMastery, isReviewDueToday } from '../services/spacedRepetition';
+import { Lock, X } from 'lucide-react';
 
 interface ConceptMapProps {
   concepts: Concept[];
   onSelectConcept: (concept: Concept) => void;
   selectedConceptId?: string;
+  lockedConcepts: Map<string, Concept[]>; // Missing prerequisites per locked concept (see unlocking)
+  unlockThreshold: MasteryLevel;
 }
 
-const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, selectedConceptId }) => {
+const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, selectedConceptId, lockedConcepts, unlockThreshold }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const zoomBehaviorRef = useRef<any>(null);
+  const [blockedConceptId, setBlockedConceptId] = useState<string | null>(null); // Locked node last clicked
 
   useEffect(() => {
     if (!concepts.length || !svgRef.current || !containerRef.current) return;
@@ -41,8 +48,8 @@ const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, sele
     svg.call(zoom);
     zoomBehaviorRef.current = zoom;
 
-    // Prepare data
-    const nodes = concepts.map(d => ({ ...d }));
+    // Prepare data; colours follow effective mastery, so overdue reviews show as decay
+    const nodes = concepts.map(d => ({ ...d, masteryLevel: getEffectiveMastery(d), reviewDue: isReviewDueToday(d) }));
     const links: any[] = [];
 
     concepts.forEach(c => {
@@ -92,10 +99,11 @@ const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, sele
         .on("end", dragended)
       );
 
-    // Node Circles with gradual color progression
+    // Node Circles with gradual color progression; locked nodes are dashed and greyed out
     node.append("circle")
       .attr("r", 20)
       .attr("fill", (d) => {
+        if (lockedConcepts.has(d.id)) return "#f8fafc";
         switch (d.masteryLevel) {
           case MasteryLevel.LOCKED:
             return "#e2e8f0";
@@ -113,6 +121,7 @@ const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, sele
       })
       .attr("stroke", (d) => {
         if (d.id === selectedConceptId) return "#0f172a";
+        if (lockedConcepts.has(d.id)) return "#cbd5e1";
         switch (d.masteryLevel) {
           case MasteryLevel.LOCKED:
             return "#94a3b8";
@@ -129,18 +138,49 @@ const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, sele
         }
       })
       .attr("stroke-width", (d) => d.id === selectedConceptId ? 3 : 2)
+      .attr("stroke-dasharray", (d) => lockedConcepts.has(d.id) ? "4 3" : null)
       .attr("cursor", "pointer")
       .style("transition", "fill 0.3s ease, stroke 0.3s ease")
       .on("click", (event, d) => {
+        if (lockedConcepts.has(d.id)) {
+          setBlockedConceptId(d.id);
+          return;
+        }
+        setBlockedConceptId(null);
         onSelectConcept(concepts.find(c => c.id === d.id)!);
       });
 
+    // Padlock on locked nodes
+    const padlock = node.filter(d => lockedConcepts.has(d.id))
+      .append("g")
+      .attr("class", "pointer-events-none");
+    padlock.append("rect")
+      .attr("x", -5)
+      .attr("y", -2)
+      .attr("width", 10)
+      .attr("height", 8)
+      .attr("rx", 1.5)
+      .attr("fill", "#94a3b8");
+    padlock.append("path")
+      .attr("d", "M-3,-2 v-3 a3,3 0 0 1 6,0 v3")
+      .attr("fill", "none")
+      .attr("stroke", "#94a3b8")
+      .attr("stroke-width", 1.5);
+
+    // Hover details: definition and where the concept comes from
+    node.append("title")
+      .text(d => [
+        d.description,
+        ...(d.reviewDue ? ['Review due'] : []),
+        ...(d.sources || []).map(source => `from ${formatSourceLocation(source)}`)
+      ].join('\n'));
+
     // Labels
     node.append("text")
       .text(d => d.title)
       .attr("x", 24)
       .attr("y", 5)
-      .attr("class", "text-xs font-sans fill-slate-700 pointer-events-none select-none font-medium");
+      .attr("class", (d) => `text-xs font-sans pointer-events-none select-none font-medium ${lockedConcepts.has(d.id) ? 'fill-slate-400' : 'fill-slate-700'}`);
 
     simulation.on("tick", () => {
       link
@@ -173,7 +213,7 @@ const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, sele
     return () => {
       simulation.stop();
     };
-  }, [concepts, selectedConceptId, onSelectConcept]);
+  }, [concepts, selectedConceptId, onSelectConcept, lockedConcepts]);
 
   // Zoom control functions
   const handleZoomIn = () => {
@@ -203,10 +243,47 @@ const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, sele
     }
   };
 
+  const blockedConcept = blockedConceptId ? concepts.find(c => c.id === blockedConceptId) : undefined;
+  const blockedBy = blockedConceptId ? lockedConcepts.get(blockedConceptId) : undefined;
+
   return (
     <div ref={containerRef} className="w-full h-[600px] bg-slate-50 rounded-xl border border-slate-200 shadow-inner overflow-hidden relative">
       <svg ref={svgRef} className="w-full h-full"></svg>
 
+      {/* Why a locked node cannot be opened; closes itself once the concept unlocks */}
+      {blockedConcept && blockedBy && (
+        <div className="absolute top-4 left-4 max-w-xs bg-white p-4 rounded-lg shadow-md border border-slate-200 text-sm text-slate-600">
+          <div className="flex justify-between items-start gap-2 mb-2">
+            <div className="flex items-center font-semibold text-slate-800">
+              <Lock className="w-4 h-4 mr-2 text-slate-400" />
+              {blockedConcept.title} is locked
+            </div>
+            <button onClick={() => setBlockedConceptId(null)} className="text-slate-400 hover:text-slate-700" title="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="mb-2">Reach {MASTERY_LEVEL_LABELS[unlockThreshold]} in these concepts first:</p>
+          <ul className="space-y-1">
+            {blockedBy.map(prerequisite => (
+              <li key={prerequisite.id}>
+                <button
+                  onClick={() => {
+                    // A locked prerequisite shows its own missing prerequisites instead
+                    if (lockedConcepts.has(prerequisite.id)) return setBlockedConceptId(prerequisite.id);
+                    setBlockedConceptId(null);
+                    onSelectConcept(prerequisite);
+                  }}
+                  className="text-left text-slate-800 font-medium hover:underline"
+                >
+                  {prerequisite.title}
+                </button>
+                <span className="text-xs text-slate-400"> (now: {MASTERY_LEVEL_LABELS[getEffectiveMastery(prerequisite)]})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Zoom Controls */}
       <div className="absolute top-4 right-4 flex flex-col gap-2">
         <button
@@ -240,6 +317,7 @@ const ConceptMap: React.FC<ConceptMapProps> = ({ concepts, onSelectConcept, sele
 
       <div className="absolute bottom-4 left-4 bg-white p-3 rounded-lg shadow-sm text-xs text-slate-600 border border-slate-200">
         <div className="font-semibold mb-2 text-slate-700">Mastery Progress</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-slate-50 border border-dashed border-slate-300"></div> Locked</div>
         <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-slate-200 border border-slate-400"></div> Not Started</div>
         <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-amber-100 border border-amber-500"></div> Recognition</div>
         <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-yellow-300 border border-yellow-500"></div> Understanding</div>
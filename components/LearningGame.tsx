@@ -1,16 +1,41 @@
-import React, { useState, useEffect } from 'react';
-import { Concept, Question, AssessmentResult, MasteryLevel, QuestionType } from '../types';
-import { generateQuestion, evaluateAnswer } from '../services/aiService';
-import { Loader2, CheckCircle2, XCircle, ArrowRight, BrainCircuit, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Concept, Question, AssessmentResult, MasteryLevel, QuestionType, MistakeRecord } from '../types';
+import { evaluateAnswer, getAIErrorMessage } from '../services/aiService';
+import { createQuestionQueue, QuestionQueue } from '../services/questionQueue';
+import { formatSourceLocation, formatTimestamp, getSourceLink } from '../services/sourceSegments';
+import { MASTERY_LEVEL_LABELS } from '../services/unlocking';
+import { applyReviewResult, getEffectiveMastery, scheduleReview } from '../services/spacedRepetition';
+import { getRemediationStep, MISCONCEPTION_LABELS, RemediationStep } from '../services/misconceptions';
+import { DEFAULT_GRADING_SETTINGS, formatPercent } from '../services/grading';
+import RemediationCard from './RemediationCard';
+import { Loader2, CheckCircle2, XCircle, ArrowRight, BrainCircuit, AlertCircle, BookOpen, ExternalLink, Lock } from 'lucide-react';
 
 interface LearningGameProps {
   concept: Concept;
   allConcepts: Concept[];
+  missingPrerequisites?: Concept[]; // Non-empty while the concept is locked
+  unlockThreshold?: MasteryLevel;
+  reviewMode?: boolean; // One question at the decayed level, then `onClose` moves on to the next review
+  passThreshold?: number; // Rubric score (0-1) an answer needs to progress
   onUpdateConcept: (updatedConcept: Concept) => void;
+  onSelectConcept?: (concept: Concept) => void;
   onClose: () => void;
 }
 
-const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpdateConcept, onClose }) => {
+const LearningGame: React.FC<LearningGameProps> = ({
+  concept,
+  allConcepts,
+  missingPrerequisites = [],
+  unlockThreshold = MasteryLevel.UNDERSTANDING,
+  reviewMode = false,
+  passThreshold = DEFAULT_GRADING_SETTINGS.passThreshold,
+  onUpdateConcept,
+  onSelectConcept,
+  onClose
+}) => {
+  const locked = missingPrerequisites.length > 0;
+  // Reviews ask at the effective level, so an overdue concept is tested where it has decayed to
+  const questionConcept = reviewMode ? { ...concept, masteryLevel: getEffectiveMastery(concept) } : concept;
   const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
   const [loading, setLoading] = useState(true);
   const [userAnswer, setUserAnswer] = useState('');
@@ -18,31 +43,90 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
   const [submitting, setSubmitting] = useState(false);
   const [questionHistory, setQuestionHistory] = useState<string[]>([]); // Track asked questions
   const [needsRetry, setNeedsRetry] = useState(false); // Track if user needs to retry same level
+  const [openSourceIndex, setOpenSourceIndex] = useState<number | null>(null); // Excerpt currently shown
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [remediation, setRemediation] = useState<RemediationStep | null>(null); // Due after the current feedback
+  const [showRemediation, setShowRemediation] = useState(false);
+  const queueRef = useRef<QuestionQueue>(createQuestionQueue()); // Replaced for every concept
 
-  // Initialize: Load question
+  // Initialize: Load question (none is generated for a locked concept)
   useEffect(() => {
+    setOpenSourceIndex(null);
+    setRemediation(null);
+    setShowRemediation(false);
+    setQuestionHistory([]); // Questions asked about another concept say nothing about this one
+    const queue = createQuestionQueue();
+    queueRef.current = queue;
+    if (locked) return;
+    // Set once the concept changes again, so a question still generating for this one is dropped
+    let cancelled = false;
     const loadQ = async () => {
       setLoading(true);
-      const q = await generateQuestion(concept, allConcepts);
-      setCurrentQuestion(q);
-      setLoading(false);
+      setAiError(null);
+      try {
+        const question = await queue.next(questionConcept, allConcepts, []);
+        if (!cancelled) showQuestion(question, []);
+      } catch (err) {
+        if (!cancelled) setAiError(getAIErrorMessage(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
     };
     loadQ();
-  }, [concept.id]); // Reload if concept changes
+    return () => {
+      cancelled = true;
+    };
+  }, [concept.id, locked]); // Reload if concept changes or unlocks
+
+  // Next questions are generated in the background while this one is answered; a review asks just one
+  const showQuestion = (question: Question, askedQuestions: string[]) => {
+    setCurrentQuestion(question);
+    if (!reviewMode) queueRef.current.prefetch(questionConcept, allConcepts, [...askedQuestions, question.text]);
+  };
 
   const handleSubmit = async () => {
     if (!currentQuestion || !userAnswer.trim()) return;
     setSubmitting(true);
+    setAiError(null);
 
-    const result = await evaluateAnswer(currentQuestion, userAnswer, concept);
+    let result: AssessmentResult;
+    try {
+      result = await evaluateAnswer(currentQuestion, userAnswer, questionConcept, allConcepts, passThreshold);
+    } catch (err) {
+      // Keep the answer so the user can simply submit again
+      setAiError(getAIErrorMessage(err));
+      setSubmitting(false);
+      return;
+    }
     setAssessment(result);
     setSubmitting(false);
+    // Set from the rubric score against the threshold, like the feedback and misconception
+    const passed = result.isCorrect;
 
     // Add question to history
     setQuestionHistory(prev => [...prev, currentQuestion.text]);
 
-    if (result.isCorrect) {
-      // Correct answer - can progress to next level
+    const mistake: MistakeRecord = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      question: currentQuestion.text,
+      userAnswer: userAnswer,
+      correction: result.explanation,
+      // Only what the evaluator classified; a mistake without a misconception stays unclassified
+      misunderstandingType: result.misconception?.type,
+      relatedConcept: result.misconception?.conceptTitle
+    };
+
+    if (reviewMode) {
+      onUpdateConcept({
+        ...applyReviewResult(concept, passed),
+        mistakes: passed ? concept.mistakes : [...concept.mistakes, mistake]
+      });
+      return;
+    }
+
+    if (passed) {
+      // Passing answer - can progress to next level
       setNeedsRetry(false);
       const currentLevel = concept.masteryLevel === MasteryLevel.LOCKED ? 1 : concept.masteryLevel;
       const nextLevel = Math.min(currentLevel + 1, MasteryLevel.REASONING);
@@ -53,10 +137,11 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
           masteryLevel: nextLevel
         });
       } else {
-        // Boss level completed - mastered!
+        // Boss level completed - mastered! Reviews are scheduled from here on
         onUpdateConcept({
           ...concept,
-          masteryLevel: MasteryLevel.REASONING
+          masteryLevel: MasteryLevel.REASONING,
+          review: scheduleReview(concept.review, true, MasteryLevel.REASONING)
         });
 
         // Close the game and return to concept map after a short delay
@@ -67,44 +152,80 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
     } else {
       // Wrong answer - record mistake and require retry at same level
       setNeedsRetry(true);
-      onUpdateConcept({
-        ...concept,
-        mistakes: [
-          ...concept.mistakes,
-          {
-            id: crypto.randomUUID(),
-            timestamp: Date.now(),
-            question: currentQuestion.text,
-            userAnswer: userAnswer,
-            correction: result.explanation,
-            misunderstandingType: "Conceptual"
-          }
-        ]
-      });
+      const updated = { ...concept, mistakes: [...concept.mistakes, mistake] };
+      // A misconception that keeps repeating gets a remediation step before the next question
+      setRemediation(getRemediationStep(updated, allConcepts));
+      onUpdateConcept(updated);
+    }
+  };
+
+  const handleContinue = () => {
+    if (remediation && !showRemediation) {
+      setShowRemediation(true);
+      return;
     }
+    setRemediation(null);
+    setShowRemediation(false);
+    handleNext();
   };
 
   const handleNext = async () => {
     setAssessment(null);
     setUserAnswer('');
     setCurrentQuestion(null);
+    setAiError(null);
     setLoading(true);
 
-    // Generate next question, avoiding previously asked ones
-    let newQuestion = await generateQuestion(concept, allConcepts);
-    let attempts = 0;
-    const maxAttempts = 5;
-
-    // Try to get a unique question
-    while (questionHistory.includes(newQuestion.text) && attempts < maxAttempts) {
-      newQuestion = await generateQuestion(concept, allConcepts);
-      attempts++;
+    // The queue is replaced when the concept changes; a question for the previous one is dropped
+    const queue = queueRef.current;
+    try {
+      // Prefetched when ready; the queue also discards near-duplicates of asked questions
+      const question = await queue.next(questionConcept, allConcepts, questionHistory);
+      if (queueRef.current === queue) showQuestion(question, questionHistory);
+    } catch (err) {
+      if (queueRef.current === queue) setAiError(getAIErrorMessage(err));
+    } finally {
+      if (queueRef.current === queue) setLoading(false);
     }
-
-    setCurrentQuestion(newQuestion);
-    setLoading(false);
   };
 
+  if (locked) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center p-8 bg-white rounded-xl shadow-lg border border-slate-200">
+        <Lock className="w-8 h-8 text-slate-400 mb-4" />
+        <h2 className="text-xl font-bold text-slate-800 mb-2">{concept.title} is locked</h2>
+        <p className="text-slate-600 mb-4 max-w-md">
+          Reach {MASTERY_LEVEL_LABELS[unlockThreshold]} in these prerequisites first:
+        </p>
+        <div className="flex flex-wrap justify-center gap-2 mb-6">
+          {missingPrerequisites.map(prerequisite => (
+            <button
+              key={prerequisite.id}
+              onClick={() => onSelectConcept?.(prerequisite)}
+              className="px-3 py-1.5 rounded-full border border-slate-200 text-sm text-slate-700 hover:border-slate-400"
+            >
+              {prerequisite.title} ({MASTERY_LEVEL_LABELS[getEffectiveMastery(prerequisite)]})
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="px-6 py-2 text-slate-500 hover:text-slate-800">
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  if (remediation && showRemediation) {
+    return (
+      <RemediationCard
+        step={remediation}
+        concept={concept}
+        onContinue={handleContinue}
+        onSelectConcept={onSelectConcept}
+      />
+    );
+  }
+
   if (loading) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-slate-400">
@@ -114,7 +235,30 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
     );
   }
 
-  if (!currentQuestion) return null;
+  if (!currentQuestion) {
+    if (!aiError) return null;
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center p-8 bg-white rounded-xl shadow-lg border border-slate-200">
+        <AlertCircle className="w-8 h-8 text-amber-500 mb-4" />
+        <p className="text-slate-700 mb-6 max-w-md">{aiError}</p>
+        <div className="flex gap-3">
+          <button onClick={onClose} className="px-6 py-2 text-slate-500 hover:text-slate-800">
+            Close
+          </button>
+          <button
+            onClick={handleNext}
+            className="px-6 py-2 bg-slate-900 text-white rounded-lg font-semibold hover:bg-slate-800"
+          >
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const assessmentPassed = !!assessment?.isCorrect;
+  const openSource = openSourceIndex !== null ? concept.sources?.[openSourceIndex] : undefined;
+  const openSourceLink = openSource ? getSourceLink(openSource) : undefined;
 
   return (
     <div className="flex flex-col h-full bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
@@ -122,13 +266,31 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
       <div className="px-8 py-6 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
         <div>
           <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">
-            Level {concept.masteryLevel || 1}: {
-              concept.masteryLevel === 2 ? 'Understanding' :
-                concept.masteryLevel === 3 ? 'Application' :
-                  concept.masteryLevel === 4 ? 'Reasoning' : 'Recognition'
+            {reviewMode && 'Review · '}Level {questionConcept.masteryLevel || 1}: {
+              questionConcept.masteryLevel === 2 ? 'Understanding' :
+                questionConcept.masteryLevel === 3 ? 'Application' :
+                  questionConcept.masteryLevel === 4 ? 'Reasoning' : 'Recognition'
             }
           </div>
           <h2 className="text-xl font-bold text-slate-800">{concept.title}</h2>
+          {concept.sources && concept.sources.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {concept.sources.map((source, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => setOpenSourceIndex(openSourceIndex === idx ? null : idx)}
+                  className={`text-xs px-2 py-1 rounded-full border flex items-center transition ${openSourceIndex === idx
+                    ? 'border-slate-800 bg-slate-800 text-white'
+                    : 'border-slate-200 bg-white text-slate-500 hover:border-slate-400'
+                    }`}
+                  title="Show excerpt"
+                >
+                  <BookOpen className="w-3 h-3 mr-1" />
+                  from {formatSourceLocation(source)}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-sm font-medium">
           Close
@@ -138,6 +300,29 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-8">
 
+        {/* Source Excerpt */}
+        {openSource && (
+          <blockquote className="mb-8 p-4 bg-slate-50 border-l-4 border-slate-300 rounded-r-lg text-sm text-slate-600 italic">
+            "{openSource.excerpt}"
+            <div className="mt-2 not-italic text-xs text-slate-400 flex items-center gap-3">
+              <span>{formatSourceLocation(openSource)}</span>
+              {openSourceLink && (
+                <a
+                  href={openSourceLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center text-slate-600 hover:text-slate-900 font-medium"
+                >
+                  <ExternalLink className="w-3 h-3 mr-1" />
+                  {openSource.timestampSeconds !== undefined
+                    ? `Watch at ${formatTimestamp(openSource.timestampSeconds)}`
+                    : 'Open source'}
+                </a>
+              )}
+            </div>
+          </blockquote>
+        )}
+
         {/* Question */}
         <div className="mb-8">
           <h3 className="text-lg text-slate-800 font-medium leading-relaxed">
@@ -176,28 +361,72 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
 
         {/* Assessment Feedback */}
         {assessment && (
-          <div className={`p-6 rounded-xl border mb-6 animate-in fade-in slide-in-from-bottom-4 duration-500 ${assessment.isCorrect ? 'bg-emerald-50 border-emerald-100' : 'bg-amber-50 border-amber-100'
+          <div className={`p-6 rounded-xl border mb-6 animate-in fade-in slide-in-from-bottom-4 duration-500 ${assessmentPassed ? 'bg-emerald-50 border-emerald-100' : 'bg-amber-50 border-amber-100'
             }`}>
             <div className="flex items-start gap-4">
-              {assessment.isCorrect ? (
+              {assessmentPassed ? (
                 <CheckCircle2 className="w-6 h-6 text-emerald-600 shrink-0 mt-0.5" />
               ) : (
                 <AlertCircle className="w-6 h-6 text-amber-600 shrink-0 mt-0.5" />
               )}
               <div className="flex-1">
-                <h4 className={`font-bold mb-2 ${assessment.isCorrect ? 'text-emerald-800' : 'text-amber-800'}`}>
-                  {assessment.isCorrect ? 'Concept Mastered!' : 'Learning Moment'}
+                <h4 className={`font-bold mb-2 ${assessmentPassed ? 'text-emerald-800' : 'text-amber-800'}`}>
+                  {assessmentPassed ? (reviewMode ? 'Review Passed' : 'Concept Mastered!') : 'Learning Moment'}
                 </h4>
-                <p className={`leading-relaxed mb-3 ${assessment.isCorrect ? 'text-emerald-700' : 'text-amber-700'}`}>
+                <p className={`leading-relaxed mb-3 ${assessmentPassed ? 'text-emerald-700' : 'text-amber-700'}`}>
                   {assessment.explanation}
                 </p>
-                {!assessment.isCorrect && needsRetry && (
+                {assessment.criteria && assessment.score !== undefined && (
+                  <div className="mb-3 p-3 bg-white rounded-lg border border-slate-200 text-sm">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="font-semibold text-slate-700">Score {formatPercent(assessment.score)}</span>
+                      <span className="text-xs text-slate-400">
+                        Pass at {formatPercent(passThreshold)}{assessment.confidence !== undefined && ` · grader confidence ${formatPercent(assessment.confidence)}`}
+                      </span>
+                    </div>
+                    <ul className="space-y-1.5">
+                      {assessment.criteria.map(criterionScore => {
+                        const criterion = currentQuestion.rubric?.find(c => c.id === criterionScore.criterionId);
+                        return (
+                          <li key={criterionScore.criterionId} className="flex items-start gap-2">
+                            {criterionScore.met ? (
+                              <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0 mt-0.5" />
+                            ) : (
+                              <XCircle className="w-4 h-4 text-slate-300 shrink-0 mt-0.5" />
+                            )}
+                            <div className="flex-1">
+                              <span className={criterionScore.met ? 'text-slate-700' : 'text-slate-500'}>
+                                {criterion?.description ?? criterionScore.criterionId}
+                              </span>
+                              <span className="ml-2 text-xs text-slate-400">
+                                {formatPercent(criterionScore.score)}{criterion && ` · weight ${criterion.weight}`}
+                              </span>
+                              {criterionScore.comment && <p className="text-xs text-slate-500">{criterionScore.comment}</p>}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+                {assessment.misconception && (
+                  <p className="text-sm text-amber-800 mb-3">
+                    <span className="font-semibold">{MISCONCEPTION_LABELS[assessment.misconception.type]}</span>
+                    {assessment.misconception.conceptTitle && ` · ${assessment.misconception.conceptTitle}`}
+                  </p>
+                )}
+                {!assessmentPassed && needsRetry && !reviewMode && (
                   <div className="mt-3 p-3 bg-white rounded-lg border border-amber-200">
                     <p className="text-sm text-amber-800 font-medium">
                       Please answer another question at this level to demonstrate understanding.
                     </p>
                   </div>
                 )}
+                {assessment.generatedBy && (
+                  <p className="mt-3 text-xs text-slate-400">
+                    Evaluated by {assessment.generatedBy.provider} ({assessment.generatedBy.model}){assessment.generatedBy.promptVersion && `, prompt ${assessment.generatedBy.promptVersion}`}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -206,7 +435,10 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
       </div>
 
       {/* Footer */}
-      <div className="p-6 border-t border-slate-100 bg-white flex justify-end">
+      <div className="p-6 border-t border-slate-100 bg-white flex justify-end items-center gap-4">
+        {aiError && (
+          <p className="text-sm text-red-600 flex-1">{aiError}</p>
+        )}
         {!assessment ? (
           <button
             onClick={handleSubmit}
@@ -218,10 +450,10 @@ const LearningGame: React.FC<LearningGameProps> = ({ concept, allConcepts, onUpd
           </button>
         ) : (
           <button
-            onClick={handleNext}
+            onClick={reviewMode ? onClose : handleContinue}
             className="px-8 py-3 bg-slate-100 text-slate-800 rounded-lg font-semibold hover:bg-slate-200 transition flex items-center group"
           >
-            Continue
+            {reviewMode ? 'Next Review' : 'Continue'}
             <ArrowRight className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform" />
           </button>
         )}
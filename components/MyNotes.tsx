@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useUser } from '@clerk/clerk-react';
 import { getUserNotes, deleteNote, SavedNote } from '../services/supabaseService';
+import { renderMarkdown } from '../services/markdown';
 import { FileDown, Trash2, Loader2, BookOpen, Calendar, Hash, ArrowLeft } from 'lucide-react';
-import { marked } from 'marked';
 
 interface MyNotesProps {
     onBack: () => void;
@@ -112,7 +112,7 @@ const MyNotes: React.FC<MyNotesProps> = ({ onBack }) => {
                     </div>
                     <div
                         className="prose prose-slate max-w-none"
-                        dangerouslySetInnerHTML={{ __html: marked(selectedNote.content) }}
+                        dangerouslySetInnerHTML={{ __html: renderMarkdown(selectedNote.content) }}
                     />
                 </div>
             </div>
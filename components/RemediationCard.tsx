@@ -0,0 +1,139 @@
+import React from 'react';
+import { Concept } from '../types';
+import { MISCONCEPTION_LABELS, RemediationStep } from '../services/misconceptions';
+import { MASTERY_LEVEL_LABELS } from '../services/unlocking';
+import { formatSourceLocation } from '../services/sourceSegments';
+import { ArrowRight, BookOpen, GitCompare, Lightbulb, ListChecks, Search } from 'lucide-react';
+
+interface RemediationCardProps {
+  step: RemediationStep;
+  concept: Concept;
+  onContinue: () => void;
+  onSelectConcept?: (concept: Concept) => void;
+}
+
+const HEADINGS: Record<RemediationStep['kind'], string> = {
+  'prerequisite-review': 'Review a prerequisite first',
+  'contrast': 'Tell the two concepts apart',
+  'definition-review': 'Revisit the full definition',
+  'worked-example': 'Walk through the corrections',
+  'careful-reading': 'Read the question carefully',
+};
+
+// Definition and first source excerpt of a concept
+const ConceptPanel: React.FC<{ concept: Concept }> = ({ concept }) => {
+  const source = concept.sources?.[0];
+  return (
+    <div className="flex-1 p-4 rounded-lg border border-slate-200 bg-slate-50">
+      <h4 className="font-bold text-slate-800 mb-2">{concept.title}</h4>
+      <p className="text-sm text-slate-600 leading-relaxed">{concept.description}</p>
+      {source && (
+        <blockquote className="mt-3 pl-3 border-l-2 border-slate-300 text-xs text-slate-500 italic">
+          "{source.excerpt}"
+          <span className="block mt-1 not-italic text-slate-400">{formatSourceLocation(source)}</span>
+        </blockquote>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Inserted into a learning game when the same misconception type repeats for a concept
+ */
+const RemediationCard: React.FC<RemediationCardProps> = ({ step, concept, onContinue, onSelectConcept }) => {
+  const { kind, relatedConcept, corrections } = step;
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+      <div className="px-8 py-6 border-b border-slate-100 bg-indigo-50">
+        <div className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-1">
+          Remediation · {MISCONCEPTION_LABELS[step.misconceptionType]} came up {corrections.length} times
+        </div>
+        <h2 className="text-xl font-bold text-slate-800">{HEADINGS[kind]}</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-8 space-y-6">
+        {kind === 'prerequisite-review' && relatedConcept && (
+          <>
+            <p className="text-slate-600 flex items-start gap-2">
+              <BookOpen className="w-5 h-5 text-indigo-500 shrink-0 mt-0.5" />
+              Your answers about {concept.title} suggest a gap in {relatedConcept.title}, which it builds on
+              (currently {MASTERY_LEVEL_LABELS[relatedConcept.masteryLevel]}). Refresh it before the next question.
+            </p>
+            <ConceptPanel concept={relatedConcept} />
+          </>
+        )}
+
+        {kind === 'contrast' && relatedConcept && (
+          <>
+            <p className="text-slate-600 flex items-start gap-2">
+              <GitCompare className="w-5 h-5 text-indigo-500 shrink-0 mt-0.5" />
+              {concept.title} has been mixed up with {relatedConcept.title} more than once. Compare how the material defines each.
+            </p>
+            <div className="flex flex-col md:flex-row gap-4">
+              <ConceptPanel concept={concept} />
+              <ConceptPanel concept={relatedConcept} />
+            </div>
+          </>
+        )}
+
+        {kind === 'definition-review' && (
+          <>
+            <p className="text-slate-600 flex items-start gap-2">
+              <BookOpen className="w-5 h-5 text-indigo-500 shrink-0 mt-0.5" />
+              Your answers have been on the right track but left parts out. Read the whole definition again.
+            </p>
+            <ConceptPanel concept={concept} />
+          </>
+        )}
+
+        {kind === 'worked-example' && (
+          <p className="text-slate-600 flex items-start gap-2">
+            <ListChecks className="w-5 h-5 text-indigo-500 shrink-0 mt-0.5" />
+            You know what {concept.title} is, but applying it has gone wrong. Go through the feedback on each attempt step by step.
+          </p>
+        )}
+
+        {kind === 'careful-reading' && (
+          <p className="text-slate-600 flex items-start gap-2">
+            <Search className="w-5 h-5 text-indigo-500 shrink-0 mt-0.5" />
+            Your answers have been addressing a different question than the one asked. Before answering the next one,
+            restate in your own words what it asks for.
+          </p>
+        )}
+
+        <div>
+          <h3 className="text-sm font-semibold text-slate-700 mb-2 flex items-center">
+            <Lightbulb className="w-4 h-4 mr-2 text-amber-500" />
+            Feedback on those answers
+          </h3>
+          <ol className="space-y-2 list-decimal list-inside text-sm text-slate-600">
+            {corrections.map((correction, idx) => (
+              <li key={idx}>{correction}</li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      <div className="p-6 border-t border-slate-100 bg-white flex justify-end items-center gap-4">
+        {kind === 'prerequisite-review' && relatedConcept && onSelectConcept && (
+          <button
+            onClick={() => onSelectConcept(relatedConcept)}
+            className="px-6 py-3 text-slate-600 hover:text-slate-900 font-medium"
+          >
+            Practice {relatedConcept.title}
+          </button>
+        )}
+        <button
+          onClick={onContinue}
+          className="px-8 py-3 bg-slate-900 text-white rounded-lg font-semibold hover:bg-slate-800 transition flex items-center group"
+        >
+          Back to {concept.title}
+          <ArrowRight className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RemediationCard;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Concept } from '../types';
+import { getDueReviews } from '../services/spacedRepetition';
+import { attributeUsageTo } from '../services/usageService';
+import LearningGame from './LearningGame';
+import { ArrowLeft, CheckCircle2 } from 'lucide-react';
+
+interface ReviewSession {
+  id: string;
+  title: string;
+  concepts: Concept[];
+}
+
+interface ReviewQueueProps {
+  sessions: ReviewSession[]; // Every saved session, including the current one
+  passThreshold: number;
+  onUpdateConcept: (sessionId: string, concept: Concept) => void;
+  onBack: () => void;
+}
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ sessions, passThreshold, onUpdateConcept, onBack }) => {
+  // Fixed when the mode opens, so a concept stays in the queue after its review reschedules it
+  const [queue] = useState(() => getDueReviews(sessions));
+  const [position, setPosition] = useState(0);
+
+  const current = queue[position];
+  const session = current ? sessions.find(s => s.id === current.sessionId) : undefined;
+  const concept = session?.concepts.find(c => c.id === current.conceptId);
+
+  // A review's AI calls count toward the session the concept comes from
+  useEffect(() => {
+    if (session) return attributeUsageTo(session);
+  }, [session?.id]);
+
+  // Skips reviews whose session or concept has gone away since the queue was built
+  if (current && !concept) {
+    setPosition(position + 1);
+    return null;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto h-[calc(100vh-140px)] flex flex-col">
+      <div className="mb-4 flex justify-between items-center">
+        <button
+          onClick={onBack}
+          className="text-sm font-medium text-slate-600 hover:text-slate-900 flex items-center"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </button>
+        <h2 className="text-lg font-bold text-slate-800">Reviews due today</h2>
+        <span className="text-xs text-slate-400 bg-white border border-slate-200 px-2 py-1 rounded-full">
+          {Math.min(position + 1, queue.length)} / {queue.length}
+        </span>
+      </div>
+
+      {concept && session ? (
+        <div className="flex-1 flex flex-col min-h-0">
+          <p className="mb-2 text-xs text-slate-500">From {session.title}</p>
+          <div className="flex-1 min-h-0">
+            <LearningGame
+              key={`${current.sessionId}:${current.conceptId}`}
+              concept={concept}
+              allConcepts={session.concepts}
+              reviewMode
+              passThreshold={passThreshold}
+              onUpdateConcept={(updated) => onUpdateConcept(session.id, updated)}
+              onClose={() => setPosition(position + 1)}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center text-center p-8 bg-white rounded-xl shadow-lg border border-slate-200">
+          <CheckCircle2 className="w-10 h-10 text-emerald-500 mb-4" />
+          <h3 className="text-xl font-bold text-slate-800 mb-2">
+            {queue.length === 0 ? 'No reviews due today' : 'All reviews done for today'}
+          </h3>
+          <p className="text-slate-500 mb-6 max-w-md">
+            Mastered concepts come back for review at growing intervals. Overdue reviews lower a concept's mastery until it is reviewed again.
+          </p>
+          <button
+            onClick={onBack}
+            className="px-6 py-2 bg-slate-900 text-white rounded-lg font-semibold hover:bg-slate-800"
+          >
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueue;
@@ -1,41 +1,87 @@
 import React, { useState } from 'react';
-import { extractConceptsFromContent } from '../services/aiService';
-import { processFile, processYouTubeURL, FileType } from '../services/fileProcessing';
+import { extractConceptsFromContent, ExtractionProgress, getAIErrorMessage } from '../services/aiService';
+import {
+  processFile,
+  processURL,
+  extractYouTubePlaylist,
+  extractYouTubePlaylistId,
+  FileType,
+  ProcessedContent,
+  ProcessedPlaylist
+} from '../services/fileProcessing';
+import { toSourceSegments } from '../services/sourceSegments';
+import { attributeUsageTo } from '../services/usageService';
+import { LOW_OCR_CONFIDENCE } from '../services/ocrService';
 import { Concept } from '../types';
-import { Upload, Youtube, FileText, Loader2, X, CheckCircle } from 'lucide-react';
+import { Upload, Youtube, FileText, Loader2, X, CheckCircle, Link } from 'lucide-react';
+
+// Caption languages offered for YouTube links; empty means the video's default track
+const CAPTION_LANGUAGES = [
+  { code: '', label: 'Auto' },
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+  { code: 'zh-Hans', label: '中文' },
+];
+
+// Extensions understood by processFile
+const ACCEPTED_FILE_TYPES = '.pdf,.pptx,.docx,.epub,.html,.htm,.txt,.md,.png,.jpg,.jpeg,.webp';
 
 interface SessionSetupProps {
-  onSessionStart: (concepts: Concept[]) => void;
+  onSessionStart: (concepts: Concept[], session: { id: string; title: string }) => void;
 }
 
 const SessionSetup: React.FC<SessionSetupProps> = ({ onSessionStart }) => {
   const [inputText, setInputText] = useState('');
-  const [youtubeUrl, setYoutubeUrl] = useState('');
+  const [urlInput, setUrlInput] = useState('');
+  const [captionLanguage, setCaptionLanguage] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isProcessingFile, setIsProcessingFile] = useState(false);
+  const [processingStatus, setProcessingStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
+  const [addedSources, setAddedSources] = useState<ProcessedContent[]>([]);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const [playlistReport, setPlaylistReport] = useState<ProcessedPlaylist | null>(null);
+  const [regenerate, setRegenerate] = useState(false);
 
   const handleAnalyze = async () => {
-    if (!inputText.trim()) {
+    // Pasted notes become one more source next to the uploads, so nothing is flattened
+    const pastedNotes: ProcessedContent[] = inputText.trim()
+      ? [{ text: inputText, type: FileType.TEXT, metadata: { title: 'Pasted notes' } }]
+      : [];
+    const segments = toSourceSegments([...addedSources, ...pastedNotes]);
+
+    if (segments.length === 0) {
       setError("Please add some content first.");
       return;
     }
 
     setIsAnalyzing(true);
     setError(null);
+    // The session is named before extraction, so the extraction's AI usage belongs to it
+    const firstSource = addedSources[0]?.metadata;
+    const session = { id: crypto.randomUUID(), title: firstSource?.playlistTitle || firstSource?.title || 'Pasted notes' };
+    const stopAttributing = attributeUsageTo(session);
 
     try {
-      const concepts = await extractConceptsFromContent(inputText);
+      const concepts = await extractConceptsFromContent(segments, setProgress, { regenerate });
       if (concepts.length === 0) {
         setError("Could not extract any concepts. Try adding more detailed content.");
       } else {
-        onSessionStart(concepts);
+        onSessionStart(concepts, session);
       }
     } catch (err) {
-      setError("Failed to analyze content. Please check your API key.");
+      setError(getAIErrorMessage(err));
     } finally {
+      stopAttributing();
       setIsAnalyzing(false);
+      setProgress(null);
     }
   };
 
@@ -47,43 +93,51 @@ const SessionSetup: React.FC<SessionSetupProps> = ({ onSessionStart }) => {
     setError(null);
 
     try {
-      const processed = await processFile(file);
-      setInputText(prev => {
-        const separator = prev.trim() ? '\n\n---\n\n' : '';
-        return prev + separator + `# ${processed.metadata?.title || 'Uploaded Content'}\n\n${processed.text}`;
-      });
-      setUploadedFiles(prev => [...prev, processed.metadata?.title || file.name]);
+      const processed = await processFile(file, setProcessingStatus);
+      setAddedSources(prev => [...prev, processed]);
     } catch (err: any) {
       setError(err.message || 'Failed to process file');
     } finally {
       setIsProcessingFile(false);
+      setProcessingStatus(null);
       // Reset file input
       e.target.value = '';
     }
   };
 
-  const handleYouTubeSubmit = async () => {
-    if (!youtubeUrl.trim()) return;
+  const handleUrlSubmit = async () => {
+    if (!urlInput.trim()) return;
 
     setIsProcessingFile(true);
     setError(null);
 
     try {
-      const processed = await processYouTubeURL(youtubeUrl);
-      setInputText(prev => {
-        const separator = prev.trim() ? '\n\n---\n\n' : '';
-        return prev + separator + `# ${processed.metadata?.title || 'YouTube Video'}\n\n${processed.text}`;
-      });
-      setUploadedFiles(prev => [...prev, processed.metadata?.title || 'YouTube Video']);
-      setYoutubeUrl('');
+      // YouTube links, playlists and web articles share one input
+      if (extractYouTubePlaylistId(urlInput)) {
+        const playlist = await extractYouTubePlaylist(urlInput, captionLanguage || undefined, setProcessingStatus);
+        setAddedSources(prev => [...prev, ...playlist.contents]);
+        setPlaylistReport(playlist);
+      } else {
+        const processed = await processURL(urlInput, captionLanguage || undefined);
+        setAddedSources(prev => [...prev, processed]);
+      }
+      setUrlInput('');
     } catch (err: any) {
-      setError(err.message || 'Failed to process YouTube URL');
-      setYoutubeUrl('');
+      setError(err.message || 'Failed to process URL');
     } finally {
       setIsProcessingFile(false);
+      setProcessingStatus(null);
     }
   };
 
+  // Pages whose OCR text is too uncertain to trust without checking
+  const getLowConfidencePages = (source: ProcessedContent) =>
+    (source.metadata?.ocrPages || []).filter(page => page.confidence < LOW_OCR_CONFIDENCE);
+
+  const handleRemoveSource = (index: number) => {
+    setAddedSources(prev => prev.filter((_, i) => i !== index));
+  };
+
   return (
     <div className="max-w-3xl mx-auto p-6">
       <div className="text-center mb-10">
@@ -93,16 +147,75 @@ const SessionSetup: React.FC<SessionSetupProps> = ({ onSessionStart }) => {
 
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8">
         {/* Uploaded Files Indicator */}
-        {uploadedFiles.length > 0 && (
+        {addedSources.length > 0 && (
           <div className="mb-6 p-4 bg-emerald-50 border border-emerald-100 rounded-xl">
             <div className="flex items-start gap-3">
               <CheckCircle className="w-5 h-5 text-emerald-600 mt-0.5" />
               <div className="flex-1">
                 <h4 className="text-sm font-semibold text-emerald-800 mb-2">Content Added</h4>
                 <div className="space-y-1">
-                  {uploadedFiles.map((file, idx) => (
-                    <div key={idx} className="text-sm text-emerald-700">• {file}</div>
+                  {addedSources.map((source, idx) => {
+                    const lowConfidencePages = getLowConfidencePages(source);
+                    return (
+                      <div key={idx}>
+                        <div className="flex items-center justify-between text-sm text-emerald-700">
+                          <span>
+                            • {source.metadata?.title || 'Uploaded Content'}
+                            {source.segments && source.segments.length > 1 && (
+                              <span className="text-emerald-500"> ({source.segments.length} sections)</span>
+                            )}
+                          </span>
+                          <button
+                            onClick={() => handleRemoveSource(idx)}
+                            className="text-emerald-500 hover:text-emerald-800"
+                            title="Remove"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                        {lowConfidencePages.length > 0 && (
+                          <div className="ml-3 text-xs text-amber-600">
+                            ⚠️ Text recognition quality is low on {source.type === FileType.IMAGE ? 'this image' : `page${lowConfidencePages.length > 1 ? 's' : ''} ${lowConfidencePages.map(p => `${p.page} (${p.confidence}%)`).join(', ')}`}. Check the content before relying on it.
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Playlist Report */}
+        {playlistReport && (
+          <div className="mb-6 p-4 bg-slate-50 border border-slate-200 rounded-xl">
+            <div className="flex items-start gap-3">
+              <Youtube className="w-5 h-5 text-slate-600 mt-0.5" />
+              <div className="flex-1">
+                <div className="flex justify-between items-start">
+                  <h4 className="text-sm font-semibold text-slate-800 mb-2">
+                    {playlistReport.title}: {playlistReport.contents.length} of {playlistReport.videos.length} videos added
+                  </h4>
+                  <button
+                    onClick={() => setPlaylistReport(null)}
+                    className="text-slate-400 hover:text-slate-700"
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="space-y-1">
+                  {playlistReport.videos.filter(video => video.status === 'failed').map(video => (
+                    <div key={video.videoId} className="text-sm text-slate-500">
+                      • {video.title} <span className="text-amber-600">({video.message})</span>
+                    </div>
                   ))}
+                  {playlistReport.skipped > 0 && (
+                    <div className="text-sm text-slate-500">
+                      • {playlistReport.skipped} more videos were skipped (playlist too long)
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -122,7 +235,65 @@ const SessionSetup: React.FC<SessionSetupProps> = ({ onSessionStart }) => {
           />
         </div>
 
+        <div className="mb-6">
+          <label className="flex items-center justify-center w-full p-4 border-2 border-dashed border-slate-200 rounded-xl text-slate-500 hover:border-slate-400 hover:text-slate-700 transition cursor-pointer">
+            {isProcessingFile ? (
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            ) : (
+              <Upload className="w-5 h-5 mr-2" />
+            )}
+            <span className="text-sm font-medium">
+              {isProcessingFile
+                ? processingStatus || 'Processing file...'
+                : 'Upload PDF, PowerPoint, Word, EPUB, HTML, image or text file'}
+            </span>
+            <input
+              type="file"
+              accept={ACCEPTED_FILE_TYPES}
+              onChange={handleFileUpload}
+              disabled={isProcessingFile}
+              className="hidden"
+            />
+          </label>
+        </div>
 
+        <div className="mb-6">
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            Add URL
+          </label>
+          <div className="flex gap-3">
+            <div className="relative flex-1">
+              <Link className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="url"
+                value={urlInput}
+                onChange={(e) => setUrlInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUrlSubmit()}
+                placeholder="YouTube video, playlist or web article URL"
+                disabled={isProcessingFile}
+                className="w-full pl-9 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-slate-400 focus:outline-none transition text-slate-700"
+              />
+            </div>
+            <select
+              value={captionLanguage}
+              onChange={(e) => setCaptionLanguage(e.target.value)}
+              disabled={isProcessingFile}
+              className="px-3 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-slate-400 focus:outline-none text-sm text-slate-600"
+              title="Caption language for YouTube videos"
+            >
+              {CAPTION_LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleUrlSubmit}
+              disabled={isProcessingFile || !urlInput.trim()}
+              className="px-6 py-3 bg-slate-100 text-slate-800 rounded-xl font-semibold hover:bg-slate-200 transition disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </div>
 
         {error && (
           <div className="mb-6 p-4 bg-rose-50 text-rose-600 rounded-lg text-sm border border-rose-100 flex items-center">
@@ -130,6 +301,17 @@ const SessionSetup: React.FC<SessionSetupProps> = ({ onSessionStart }) => {
           </div>
         )}
 
+        <label className="mb-4 flex items-center gap-2 text-sm text-slate-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={regenerate}
+            onChange={(e) => setRegenerate(e.target.checked)}
+            disabled={isAnalyzing}
+            className="rounded border-slate-300"
+          />
+          Re-analyze from scratch instead of reusing earlier results for the same material
+        </label>
+
         <button
           onClick={handleAnalyze}
           disabled={isAnalyzing}
@@ -138,12 +320,35 @@ const SessionSetup: React.FC<SessionSetupProps> = ({ onSessionStart }) => {
           {isAnalyzing ? (
             <>
               <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-              Analyzing Concepts...
+              {progress && progress.totalChunks > 1
+                ? `Analyzing Part ${Math.min(progress.completedChunks + progress.failedChunks + 1, progress.totalChunks)} of ${progress.totalChunks}...`
+                : 'Analyzing Concepts...'}
             </>
           ) : (
             "Start Learning Session"
           )}
         </button>
+
+        {isAnalyzing && progress && progress.totalChunks > 1 && (
+          <div className="mt-4">
+            <div className="flex gap-1">
+              {Array.from({ length: progress.totalChunks }, (_, idx) => (
+                <div
+                  key={idx}
+                  className={`h-1.5 flex-1 rounded-full transition ${idx < progress.completedChunks + progress.failedChunks
+                    ? 'bg-slate-800'
+                    : 'bg-slate-200'
+                    }`}
+                />
+              ))}
+            </div>
+            {progress.failedChunks > 0 && (
+              <p className="mt-2 text-xs text-amber-600">
+                {progress.failedChunks} part{progress.failedChunks > 1 ? 's' : ''} could not be analyzed and will be skipped.
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="mt-8 grid grid-cols-3 gap-6 text-center text-slate-400 text-sm">
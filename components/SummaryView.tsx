@@ -1,9 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useUser } from '@clerk/clerk-react';
-import { Concept, MasteryLevel } from '../types';
-import { generateUnifiedSummary } from '../services/aiService';
+import { Concept, GeneratedBy, MasteryLevel } from '../types';
+import { streamUnifiedSummary, getAIErrorMessage, AIServiceError } from '../services/aiService';
 import { saveNote } from '../services/supabaseService';
-import { FileDown, Loader2, Save, CheckCircle } from 'lucide-react';
+import { renderMarkdown } from '../services/markdown';
+import { FileDown, Loader2, Save, CheckCircle, AlertCircle, Square, RotateCcw } from 'lucide-react';
+
+// Save and Download need a complete summary, so they only appear once the stream is 'done'
+type SummaryStatus = 'streaming' | 'done' | 'cancelled' | 'error';
 
 interface SummaryViewProps {
   concepts: Concept[];
@@ -13,7 +17,10 @@ interface SummaryViewProps {
 const SummaryView: React.FC<SummaryViewProps> = ({ concepts, onBack }) => {
   const { user } = useUser();
   const [summary, setSummary] = useState<string>('');
-  const [generating, setGenerating] = useState(true);
+  const [generatedBy, setGeneratedBy] = useState<GeneratedBy | undefined>();
+  const [status, setStatus] = useState<SummaryStatus>('streaming');
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const streamRef = useRef<AbortController | null>(null);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
   const [noteTitle, setNoteTitle] = useState('');
@@ -28,15 +35,54 @@ const SummaryView: React.FC<SummaryViewProps> = ({ concepts, onBack }) => {
     const topConcepts = concepts.slice(0, 2).map(c => c.title).join(' & ');
     setNoteTitle(`${topConcepts} - ${date}`);
 
-    // Generate summary
-    generateUnifiedSummary(concepts).then(text => {
-      setSummary(text);
-      setGenerating(false);
-    });
+    startSummary();
+    return () => streamRef.current?.abort();
   }, [concepts]);
 
+  // Streams the summary into view; starting again abandons any stream still running.
+  // `regenerate` bypasses the cache to write a fresh summary.
+  const startSummary = (regenerate = false) => {
+    streamRef.current?.abort();
+    const controller = new AbortController();
+    streamRef.current = controller;
+
+    setSummary('');
+    setGeneratedBy(undefined);
+    setSummaryError(null);
+    setSaved(false);
+    setStatus('streaming');
+
+    streamUnifiedSummary(
+      concepts,
+      text => {
+        if (streamRef.current === controller) setSummary(prev => prev + text);
+      },
+      controller.signal,
+      { regenerate }
+    )
+      .then(result => {
+        if (streamRef.current !== controller) return;
+        setSummary(result.text);
+        setGeneratedBy(result.generatedBy);
+        setStatus('done');
+      })
+      .catch(err => {
+        if (streamRef.current !== controller) return;
+        if (err instanceof AIServiceError && err.code === 'CANCELLED') {
+          setStatus('cancelled');
+        } else {
+          setSummaryError(getAIErrorMessage(err));
+          setStatus('error');
+        }
+      });
+  };
+
+  const handleCancel = () => {
+    streamRef.current?.abort();
+  };
+
   const handleSaveToDatabase = async () => {
-    if (!user || !summary || saved) return;
+    if (!user || !summary || saved || status !== 'done') return;
 
     setSaving(true);
 
@@ -63,6 +109,8 @@ const SummaryView: React.FC<SummaryViewProps> = ({ concepts, onBack }) => {
   };
 
   const handleDownload = async () => {
+    if (status !== 'done') return;
+
     // Auto-save to database before downloading
     if (user && !saved) {
       await handleSaveToDatabase();
@@ -91,7 +139,7 @@ const SummaryView: React.FC<SummaryViewProps> = ({ concepts, onBack }) => {
               onChange={(e) => setNoteTitle(e.target.value)}
               className="flex-1 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-400 focus:outline-none text-slate-700"
               placeholder="Note title..."
-              disabled={generating}
+              disabled={status === 'streaming'}
             />
             {saved && (
               <div className="flex items-center gap-2 text-emerald-600 text-sm font-medium">
@@ -105,8 +153,34 @@ const SummaryView: React.FC<SummaryViewProps> = ({ concepts, onBack }) => {
           <button onClick={onBack} className="text-slate-500 hover:text-slate-800 px-4 py-2">
             Back to Map
           </button>
-          {!generating && (
+          {status === 'streaming' && (
+            <button
+              onClick={handleCancel}
+              className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg flex items-center hover:bg-slate-200"
+            >
+              <Square className="w-4 h-4 mr-2" />
+              Stop
+            </button>
+          )}
+          {(status === 'cancelled' || status === 'error') && (
+            <button
+              onClick={() => startSummary(true)}
+              className="bg-slate-900 text-white px-6 py-2 rounded-lg flex items-center hover:bg-slate-800"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Regenerate
+            </button>
+          )}
+          {status === 'done' && (
             <>
+              <button
+                onClick={() => startSummary(true)}
+                className="text-slate-500 hover:text-slate-800 px-4 py-2 flex items-center"
+                title="Write a new summary instead of reusing the cached one"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Regenerate
+              </button>
               {!saved && (
                 <button
                   onClick={handleSaveToDatabase}
@@ -139,17 +213,44 @@ const SummaryView: React.FC<SummaryViewProps> = ({ concepts, onBack }) => {
       </div>
 
       <div className="bg-white p-10 rounded-xl shadow-sm border border-slate-200 min-h-[500px]">
-        {generating ? (
+        {status === 'streaming' && !summary ? (
           <div className="flex flex-col items-center justify-center h-64 text-slate-400">
             <Loader2 className="w-10 h-10 animate-spin mb-4" />
             <p>Synthesizing your mastery path...</p>
           </div>
+        ) : status === 'error' && !summary ? (
+          <div className="flex flex-col items-center justify-center h-64 text-slate-500 text-center">
+            <AlertCircle className="w-10 h-10 text-amber-500 mb-4" />
+            <p className="max-w-md">{summaryError}</p>
+          </div>
         ) : (
           <article className="prose prose-slate max-w-none">
+            {/* Rendered on every chunk, so the guide grows as the model writes it */}
             <div
-              className="whitespace-pre-wrap leading-relaxed"
-              dangerouslySetInnerHTML={{ __html: summary.replace(/\n/g, '<br/>') }}
+              className="leading-relaxed"
+              dangerouslySetInnerHTML={{ __html: renderMarkdown(summary) }}
             />
+            {status === 'streaming' && (
+              <p className="mt-6 flex items-center text-sm text-slate-400">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Writing...
+              </p>
+            )}
+            {status === 'cancelled' && (
+              <p className="mt-6 text-sm text-amber-600">
+                Generation stopped. Regenerate the summary to save or download it.
+              </p>
+            )}
+            {status === 'error' && (
+              <p className="mt-6 text-sm text-amber-600">
+                {summaryError} The summary above is incomplete.
+              </p>
+            )}
+            {status === 'done' && generatedBy && (
+              <p className="mt-8 text-xs text-slate-400">
+                Generated by {generatedBy.provider} ({generatedBy.model}){generatedBy.promptVersion && `, prompt ${generatedBy.promptVersion}`}
+              </p>
+            )}
           </article>
         )}
       </div>
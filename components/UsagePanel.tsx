@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import {
+  formatCost,
+  getCurrentUsageSessionId,
+  getUsageRecords,
+  getUsageSessions,
+  groupUsage,
+  subscribeToUsage,
+  totalUsage,
+  usageDay,
+  UsageTotals
+} from '../services/usageService';
+import { AIOperation } from '../services/aiProvider';
+import { BudgetStatus } from '../services/aiCost';
+import { X, AlertTriangle } from 'lucide-react';
+
+interface UsagePanelProps {
+  budget: BudgetStatus | null; // As kept by the AI gateway; null while it cannot be reached
+  onClose: () => void;
+}
+
+const OPERATION_LABELS: Record<AIOperation, string> = {
+  extract: 'Concept extraction',
+  question: 'Questions',
+  evaluate: 'Answer checks',
+  summary: 'Summaries',
+};
+
+const formatTokens = (totals: UsageTotals) =>
+  `${(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens`;
+
+// Cost cell; unpriced calls are pointed out rather than silently counted as free
+const CostCell: React.FC<{ totals: UsageTotals }> = ({ totals }) => (
+  <td className="py-1.5 text-right text-slate-700" title={totals.unpricedCalls > 0 ? `${totals.unpricedCalls} call(s) used a model without a known price` : undefined}>
+    {formatCost(totals.cost)}{totals.unpricedCalls > 0 ? '*' : ''}
+  </td>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ budget, onClose }) => {
+  const [, setVersion] = useState(0);
+
+  // Re-render as calls complete while the panel is open
+  useEffect(() => subscribeToUsage(() => setVersion(v => v + 1)), []);
+
+  const records = getUsageRecords();
+  const sessions = getUsageSessions();
+  const currentSessionId = getCurrentUsageSessionId();
+  const currentRecords = records.filter(r => r.sessionId === currentSessionId);
+
+  const bySession = groupUsage(records, r => r.sessionId ?? '').reverse();
+  const byDay = groupUsage(records, r => usageDay(r.timestamp)).reverse();
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-2xl max-h-[85vh] overflow-y-auto p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-slate-800">AI Usage</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Budget */}
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold text-slate-700 mb-1">Monthly budget</h3>
+          {!budget ? (
+            <p className="text-xs text-slate-500">The budget could not be loaded from the AI server.</p>
+          ) : budget.limit === null ? (
+            <p className="text-xs text-slate-500">No monthly budget is set on the AI server.</p>
+          ) : (
+            <div className="mt-2">
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${budget.state === 'exceeded' ? 'bg-red-500' : budget.state === 'warning' ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                  style={{ width: `${Math.min(100, (budget.spent / budget.limit) * 100)}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-slate-500">
+                {formatCost(budget.spent)} of {formatCost(budget.limit)} used this month
+              </p>
+              {budget.state !== 'ok' && (
+                <p className={`mt-2 text-sm flex items-center ${budget.state === 'exceeded' ? 'text-red-600' : 'text-amber-600'}`}>
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  {budget.state === 'exceeded'
+                    ? 'Budget reached. AI features are paused until next month.'
+                    : 'You are close to your monthly budget.'}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Current session */}
+        {currentSessionId && (
+          <div className="mb-6">
+            <h3 className="text-sm font-semibold text-slate-700 mb-2">Current session</h3>
+            <table className="w-full text-sm">
+              <tbody>
+                {groupUsage(currentRecords, r => r.operation).map(({ key, totals }) => (
+                  <tr key={key} className="border-t border-slate-100">
+                    <td className="py-1.5 text-slate-600">{OPERATION_LABELS[key as AIOperation] ?? key}</td>
+                    <td className="py-1.5 text-slate-500">{totals.calls} calls</td>
+                    <td className="py-1.5 text-slate-500">{formatTokens(totals)}</td>
+                    <CostCell totals={totals} />
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-200 font-medium">
+                  <td className="py-1.5 text-slate-700">Total</td>
+                  <td className="py-1.5 text-slate-600">{currentRecords.length} calls</td>
+                  <td className="py-1.5 text-slate-600">{formatTokens(totalUsage(currentRecords))}</td>
+                  <CostCell totals={totalUsage(currentRecords)} />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {records.length === 0 ? (
+          <p className="text-sm text-slate-400">No AI calls recorded yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-semibold text-slate-700 mb-2">Per session</h3>
+              <table className="w-full text-sm">
+                <tbody>
+                  {bySession.map(({ key, totals }) => {
+                    const session = sessions.find(s => s.id === key);
+                    return (
+                      <tr key={key || 'none'} className="border-t border-slate-100">
+                        <td className="py-1.5 text-slate-600 truncate max-w-[10rem]" title={session?.title}>
+                          {session ? session.title : 'Outside a session'}
+                        </td>
+                        <td className="py-1.5 text-slate-500">{totals.calls}</td>
+                        <CostCell totals={totals} />
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-slate-700 mb-2">Per day</h3>
+              <table className="w-full text-sm">
+                <tbody>
+                  {byDay.map(({ key, totals }) => (
+                    <tr key={key} className="border-t border-slate-100">
+                      <td className="py-1.5 text-slate-600">{key}</td>
+                      <td className="py-1.5 text-slate-500">{totals.calls}</td>
+                      <CostCell totals={totals} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <p className="mt-6 text-xs text-slate-400">
+          Costs are estimates from token counts and list prices. * marks totals that include models without a known price.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
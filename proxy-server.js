@@ -1,30 +1,111 @@
 import express from 'express';
 import cors from 'cors';
-import { YoutubeTranscript } from 'youtube-transcript';
+import { config } from './server/config.js';
+import { fetchArticle } from './server/article.js';
+import { aiRouter, describeAiGateway } from './server/aiGateway.ts';
+import {
+    classifyTranscriptError,
+    extractPlaylistId,
+    extractVideoId,
+    getTranscript,
+    isValidLanguageCode,
+    listPlaylist,
+} from './server/youtube.js';
 
 const app = express();
-const port = 3001;
 
-app.use(cors());
-app.use(express.json());
+app.use(cors({
+    origin: (origin, callback) => callback(null, !origin || config.allowedOrigins.includes(origin)),
+}));
+// Extraction requests carry whole chunks of source material
+app.use(express.json({ limit: '5mb' }));
+
+// Reject unknown origins outright instead of just omitting CORS headers
+app.use((req, res, next) => {
+    const origin = req.get('origin');
+    if (origin && !config.allowedOrigins.includes(origin)) {
+        return res.status(403).json({ error: 'Origin not allowed', code: 'ORIGIN_NOT_ALLOWED' });
+    }
+    next();
+});
+
+/**
+ * Validates the optional `lang` query parameter; responds with 400 and returns false when invalid
+ */
+const readLanguage = (req, res) => {
+    const { lang } = req.query;
+    if (lang && !isValidLanguageCode(lang)) {
+        res.status(400).json({ error: 'Invalid lang parameter', code: 'INVALID_REQUEST' });
+        return false;
+    }
+    return lang || undefined;
+};
 
 app.get('/transcript', async (req, res) => {
     const { url } = req.query;
+    const videoId = url ? extractVideoId(url) : null;
 
-    if (!url) {
-        return res.status(400).json({ error: 'Missing url parameter' });
+    if (!videoId) {
+        return res.status(400).json({ error: 'Missing or invalid url parameter', code: 'INVALID_REQUEST' });
     }
 
+    const lang = readLanguage(req, res);
+    if (lang === false) return;
+
     try {
-        console.log(`Fetching transcript for: ${url}`);
-        const transcript = await YoutubeTranscript.fetchTranscript(url);
+        console.log(`Fetching transcript for: ${videoId}${lang ? ` (${lang})` : ''}`);
+        const transcript = await getTranscript(videoId, lang);
         res.json(transcript);
     } catch (error) {
-        console.error('Error fetching transcript:', error);
-        res.status(500).json({ error: 'Failed to fetch transcript. Captions might be disabled.' });
+        const classified = classifyTranscriptError(error);
+        console.error('Error fetching transcript:', classified.code, error.message);
+        res.status(classified.status).json({ error: classified.message, code: classified.code });
     }
 });
 
-app.listen(port, () => {
-    console.log(`✅ Transcript Proxy Server running at http://localhost:${port}`);
+app.get('/playlist', async (req, res) => {
+    const { url } = req.query;
+    const playlistId = url ? extractPlaylistId(url) : null;
+
+    if (!playlistId) {
+        return res.status(400).json({ error: 'Missing or invalid playlist url parameter', code: 'INVALID_REQUEST' });
+    }
+
+    try {
+        console.log(`Fetching playlist: ${playlistId}`);
+        const playlist = await listPlaylist(playlistId);
+        res.json(playlist);
+    } catch (error) {
+        const classified = classifyTranscriptError(error);
+        console.error('Error fetching playlist:', classified.code, error.message);
+        res.status(classified.status).json({ error: classified.message, code: classified.code });
+    }
+});
+
+app.get('/article', async (req, res) => {
+    const { url } = req.query;
+
+    if (!url) {
+        return res.status(400).json({ error: 'Missing url parameter', code: 'INVALID_REQUEST' });
+    }
+
+    try {
+        console.log(`Fetching article: ${url}`);
+        const article = await fetchArticle(url);
+        res.json(article);
+    } catch (error) {
+        console.error('Error fetching article:', error);
+        res.status(error.status || 500).json({
+            error: error.status ? error.message : 'Failed to fetch article.',
+            code: error.code || 'UNKNOWN',
+        });
+    }
+});
+
+app.use('/ai', aiRouter);
+
+app.listen(config.port, () => {
+    console.log(`✅ Content Proxy Server running at http://localhost:${config.port}`);
+    console.log(`   Allowed origins: ${config.allowedOrigins.join(', ')}`);
+    console.log(`   ${describeAiGateway()}`);
 });
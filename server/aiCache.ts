@@ -0,0 +1,33 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from './config.js';
+
+/**
+ * On-disk cache of AI results, one JSON file per content-addressed key (see services/aiCacheKey).
+ * Keys are hex digests, so they are safe to use as file names.
+ */
+
+const cacheFile = (key: string) => path.join(config.aiCacheDir, `${key}.json`);
+
+export const readCachedResult = async <T>(key: string): Promise<T | null> => {
+    if (config.aiCacheTtlMs <= 0) return null;
+    const file = cacheFile(key);
+    try {
+        const { mtimeMs } = await stat(file);
+        if (Date.now() - mtimeMs > config.aiCacheTtlMs) return null;
+        return JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+        return null;
+    }
+};
+
+export const writeCachedResult = async (key: string, value: unknown) => {
+    if (config.aiCacheTtlMs <= 0) return;
+    try {
+        await mkdir(config.aiCacheDir, { recursive: true });
+        await writeFile(cacheFile(key), JSON.stringify(value));
+    } catch (error) {
+        // A cache that cannot be written only costs another AI call next time
+        console.warn('Could not write AI cache:', (error as Error).message);
+    }
+};
@@ -0,0 +1,379 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { verifyToken } from '@clerk/backend';
+import { config } from './config.js';
+import type { Concept, ProviderUsage, Question, SourceSegment } from '../types';
+import type { AICallOptions, AIOperation, AIProvider, AIProviderPreference, SummaryStreamEvent } from '../services/aiProvider';
+import type {
+    EvaluateRequest, EvaluateResponse, ExtractRequest, ExtractResponse, GatewayRequestOptions, OperationResponse,
+    ProvidersResponse, QuestionRequest, QuestionResponse, SummaryRequest, SummaryResponse,
+} from '../services/aiGatewayContract';
+import type { BudgetStatus } from '../services/aiCost';
+import { computeCacheKey, extractCacheInput, summaryCacheInput } from '../services/aiCacheKey';
+import { hasConfiguredProvider, listProviders, openStreamWithFallback, ProviderChainError, runWithFallback } from './aiProviders';
+import { readCachedResult, writeCachedResult } from './aiCache';
+import { getUserBudgetStatus, recordSpend } from './usageLedger';
+import { DEFAULT_GRADING_SETTINGS } from '../services/grading';
+
+/**
+ * AI gateway: exposes the four AI operations as authenticated routes so that
+ * provider credentials and provider selection stay on the server, and charges
+ * every call to the signed-in user's monthly budget.
+ */
+
+class GatewayError extends Error {
+    constructor(public code: string, public status: number, message: string) {
+        super(message);
+        this.name = 'GatewayError';
+    }
+}
+
+// Budget owner when authentication is disabled for local development
+const LOCAL_USER_ID = 'local';
+
+/**
+ * Verifies the Clerk session token sent as `Authorization: Bearer <token>`,
+ * keeping its user ID in `res.locals.userId`
+ */
+const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+    if (config.aiAuthDisabled) {
+        res.locals.userId = LOCAL_USER_ID;
+        return next();
+    }
+
+    if (!config.clerkSecretKey && !config.clerkJwtKey) {
+        return res.status(503).json({ error: 'AI gateway authentication is not configured.', code: 'AUTH_NOT_CONFIGURED' });
+    }
+
+    const token = req.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+        return res.status(401).json({ error: 'Sign in to use AI features.', code: 'UNAUTHORIZED' });
+    }
+
+    try {
+        const { sub } = await verifyToken(token, {
+            secretKey: config.clerkSecretKey || undefined,
+            jwtKey: config.clerkJwtKey || undefined,
+            authorizedParties: config.allowedOrigins,
+        });
+        res.locals.userId = sub;
+        next();
+    } catch (error) {
+        console.error('AI gateway auth failed:', (error as Error).message);
+        res.status(401).json({ error: 'Your session has expired. Please sign in again.', code: 'UNAUTHORIZED' });
+    }
+};
+
+const requireProvider = (_req: Request, res: Response, next: NextFunction) => {
+    if (!hasConfiguredProvider()) {
+        return res.status(503).json({ error: 'No AI provider is configured on the server.', code: 'PROVIDER_NOT_CONFIGURED' });
+    }
+    next();
+};
+
+const userIdOf = (res: Response): string => res.locals.userId;
+
+/**
+ * Refuses new AI calls once the user's estimated spending this month reaches the budget.
+ * Calls already running are still charged, so the limit can be passed by their cost.
+ */
+const requireBudget = async (_req: Request, res: Response, next: NextFunction) => {
+    const budget = await getUserBudgetStatus(userIdOf(res));
+    if (budget.state === 'exceeded') {
+        return res.status(429).json({ error: 'The monthly AI budget has been reached.', code: 'BUDGET_EXCEEDED' });
+    }
+    next();
+};
+
+// Tokens a failed call still consumed
+const usageOfError = (error: unknown): ProviderUsage[] => error instanceof ProviderChainError ? error.usage : [];
+
+// JSON body of a POST request, before it is narrowed into one of the request types
+type RequestBody = Record<string, unknown>;
+
+const invalidField = (field: string) => new GatewayError('INVALID_REQUEST', 400, `Missing or invalid ${field}`);
+
+const assertArray: (value: unknown, field: string) => asserts value is unknown[] = (value, field) => {
+    if (!Array.isArray(value)) throw invalidField(field);
+};
+
+const assertObject: (value: unknown, field: string) => asserts value is Record<string, unknown> = (value, field) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw invalidField(field);
+};
+
+const assertString: (value: unknown, field: string) => asserts value is string = (value, field) => {
+    if (typeof value !== 'string') throw invalidField(field);
+};
+
+const assertStringArray: (value: unknown, field: string) => asserts value is string[] = (value, field) => {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) throw invalidField(field);
+};
+
+// A question's rubric comes back from the browser, so its scores are only trusted with a well-formed rubric
+const assertRubric = (value: unknown) => {
+    if (value === undefined) return;
+    const valid = Array.isArray(value) && value.every(criterion =>
+        criterion && typeof criterion.id === 'string' && typeof criterion.description === 'string'
+        && typeof criterion.weight === 'number' && criterion.weight > 0);
+    if (!valid) throw invalidField('question.rubric');
+};
+
+const readPreference = (body: RequestBody): AIProviderPreference => {
+    const preference = body.preference && typeof body.preference === 'object' ? body.preference as Record<string, unknown> : {};
+    return {
+        provider: typeof preference.provider === 'string' ? preference.provider : undefined,
+        model: typeof preference.model === 'string' ? preference.model : undefined,
+    };
+};
+
+const readOptions = (body: RequestBody): GatewayRequestOptions => ({
+    preference: readPreference(body),
+    regenerate: body.regenerate === true,
+});
+
+// Concepts, segments and questions are checked down to the object level; providers only read their text fields
+
+const readExtractRequest = (body: RequestBody): ExtractRequest => {
+    assertArray(body.segments, 'segments');
+    const knownConcepts = body.knownConcepts ?? [];
+    assertArray(knownConcepts, 'knownConcepts');
+    return { ...readOptions(body), segments: body.segments as SourceSegment[], knownConcepts: knownConcepts as Concept[] };
+};
+
+const readQuestionRequest = (body: RequestBody): QuestionRequest => {
+    assertObject(body.concept, 'concept');
+    const allConcepts = body.allConcepts ?? [];
+    assertArray(allConcepts, 'allConcepts');
+    const askedQuestions = body.askedQuestions ?? [];
+    assertStringArray(askedQuestions, 'askedQuestions');
+    return { ...readOptions(body), concept: body.concept as unknown as Concept, allConcepts: allConcepts as Concept[], askedQuestions };
+};
+
+const readEvaluateRequest = (body: RequestBody): EvaluateRequest => {
+    assertObject(body.question, 'question');
+    assertRubric(body.question.rubric);
+    assertObject(body.concept, 'concept');
+    assertString(body.userAnswer, 'userAnswer');
+    const allConcepts = body.allConcepts ?? [];
+    assertArray(allConcepts, 'allConcepts');
+    const passThreshold = body.passThreshold ?? DEFAULT_GRADING_SETTINGS.passThreshold;
+    if (typeof passThreshold !== 'number' || !(passThreshold > 0 && passThreshold <= 1)) throw invalidField('passThreshold');
+    return {
+        ...readOptions(body),
+        question: body.question as unknown as Question,
+        userAnswer: body.userAnswer,
+        concept: body.concept as unknown as Concept,
+        allConcepts: allConcepts as Concept[],
+        passThreshold,
+    };
+};
+
+const readSummaryRequest = (body: RequestBody): SummaryRequest => {
+    assertArray(body.concepts, 'concepts');
+    return { ...readOptions(body), concepts: body.concepts as Concept[] };
+};
+
+const readBody = (req: Request): RequestBody => {
+    const body: unknown = req.body ?? {};
+    assertObject(body, 'request body');
+    return body;
+};
+
+/**
+ * Sends validation and provider errors as `{ error, code }`
+ */
+const sendError = (res: Response, label: string, error: unknown) => {
+    if (error instanceof GatewayError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error(`AI gateway ${label} failed:`, (error as Error).message);
+    const chainError = error instanceof ProviderChainError ? error : null;
+    const details = { attempts: chainError?.attempts.map(a => a.provider), usage: chainError?.usage };
+    res.status(502).json(chainError?.onlyInvalidResponses
+        ? { error: 'The AI returned a response in an unexpected format.', code: 'INVALID_RESPONSE', ...details }
+        : { error: 'The AI provider request failed.', code: 'PROVIDER_ERROR', ...details });
+};
+
+/**
+ * An operation route: the body is narrowed by `read` before `handler` sees it, and the
+ * tokens the call used are charged to the user whether it succeeds or fails
+ */
+const route = <T extends GatewayRequestOptions>(
+    label: string,
+    read: (body: RequestBody) => T,
+    handler: (request: T) => Promise<OperationResponse>
+) =>
+    async (req: Request, res: Response) => {
+        try {
+            const response = await handler(read(readBody(req)));
+            await recordSpend(userIdOf(res), response.usage);
+            res.json(response);
+        } catch (error) {
+            await recordSpend(userIdOf(res), usageOfError(error));
+            sendError(res, label, error);
+        }
+    };
+
+/**
+ * Disk cache for one request. Every provider attempt has its own key, since results differ
+ * per provider and model; `regenerate: true` in the body skips reading but still stores the new result.
+ * `hit` tells the route that no AI call was made.
+ */
+const requestCache = (request: GatewayRequestOptions, operation: AIOperation, input: unknown) => {
+    const cache = {
+        hit: false,
+        run: async <T>(provider: AIProvider, options: AICallOptions, generate: () => Promise<T>): Promise<T> => {
+            const key = await computeCacheKey(operation, provider.id, options.model, input);
+            if (!request.regenerate) {
+                const cached = await readCachedResult<T>(key);
+                if (cached !== null) {
+                    cache.hit = true;
+                    return cached;
+                }
+            }
+            const result = await generate();
+            await writeCachedResult(key, result);
+            return result;
+        },
+        // Streaming variant: a cached text arrives as one piece; a new one is stored once complete
+        async *stream(provider: AIProvider, options: AICallOptions, generate: () => AsyncIterable<string>): AsyncGenerator<string> {
+            const key = await computeCacheKey(operation, provider.id, options.model, input);
+            const cached = !request.regenerate ? await readCachedResult<string>(key) : null;
+            if (cached !== null) {
+                cache.hit = true;
+                yield cached;
+                return;
+            }
+            let text = '';
+            for await (const piece of generate()) {
+                text += piece;
+                yield piece;
+            }
+            await writeCachedResult(key, text);
+        },
+    };
+    return cache;
+};
+
+export const aiRouter = express.Router();
+
+aiRouter.use(requireAuth);
+
+// Lists registered providers so the settings panel can offer only the configured ones
+aiRouter.get('/providers', (_req, res) => {
+    const body: ProvidersResponse = { providers: listProviders(), defaultProvider: config.aiProvider };
+    res.json(body);
+});
+
+// This month's spending against the budget, for the navbar and the Usage panel
+aiRouter.get('/budget', async (_req, res) => {
+    const body: BudgetStatus = await getUserBudgetStatus(userIdOf(res));
+    res.json(body);
+});
+
+aiRouter.use(requireProvider);
+aiRouter.use(requireBudget);
+
+aiRouter.post('/extract-concepts', route('extraction', readExtractRequest, async (request): Promise<ExtractResponse> => {
+    const { segments, knownConcepts = [] } = request;
+    const cache = requestCache(request, 'extract', extractCacheInput(segments, knownConcepts));
+    const { result, generatedBy, usage } = await runWithFallback(
+        'extract',
+        request.preference,
+        (provider, options) => cache.run(provider, options, () => provider.extractConceptsFromContent(segments, knownConcepts, options))
+    );
+    return { concepts: result.map(concept => ({ ...concept, generatedBy })), usage, cached: cache.hit };
+}));
+
+// Not cached here: the browser keeps a question bank per prompt and knows which questions were asked
+aiRouter.post('/question', route('question', readQuestionRequest, async (request): Promise<QuestionResponse> => {
+    const { concept, allConcepts = [], askedQuestions = [] } = request;
+    const { result, generatedBy, usage } = await runWithFallback(
+        'question',
+        request.preference,
+        (provider, options) => provider.generateQuestion(concept, allConcepts, askedQuestions, options)
+    );
+    return { question: { ...result, generatedBy }, usage };
+}));
+
+// Not cached: a resubmitted answer is graded again, so one misgraded answer does not stay misgraded
+aiRouter.post('/evaluate', route('evaluation', readEvaluateRequest, async (request): Promise<EvaluateResponse> => {
+    const { question, userAnswer, concept, allConcepts = [], passThreshold = DEFAULT_GRADING_SETTINGS.passThreshold } = request;
+    const { result, generatedBy, usage } = await runWithFallback(
+        'evaluate',
+        request.preference,
+        (provider, options) => provider.evaluateAnswer(question, userAnswer, concept, allConcepts, passThreshold, options)
+    );
+    return { assessment: { ...result, generatedBy }, usage };
+}));
+
+aiRouter.post('/summary', route('summary', readSummaryRequest, async (request): Promise<SummaryResponse> => {
+    const { concepts } = request;
+    const cache = requestCache(request, 'summary', summaryCacheInput(concepts));
+    const { result, generatedBy, usage } = await runWithFallback(
+        'summary',
+        request.preference,
+        (provider, options) => cache.run(provider, options, () => provider.generateUnifiedSummary(concepts, options))
+    );
+    return { summary: { text: result, generatedBy }, usage, cached: cache.hit };
+}));
+
+/**
+ * Streams the summary as NDJSON, one SummaryStreamEvent per line. Provider fallback
+ * happens before the first line is sent; a later failure ends the stream with an error event.
+ */
+aiRouter.post('/summary/stream', async (req, res) => {
+    // Stops the provider request when the client cancels or disconnects
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    let started = false;
+    let streamUsage: ProviderUsage[] = [];
+    let cached = false;
+    const writeEvent = (event: SummaryStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+    try {
+        const request = readSummaryRequest(readBody(req));
+        const cache = requestCache(request, 'summary', summaryCacheInput(request.concepts));
+        const { stream, generatedBy, usage } = await openStreamWithFallback(
+            'summary',
+            request.preference,
+            controller.signal,
+            (provider, options) => cache.stream(provider, options, () => provider.streamUnifiedSummary(request.concepts, options))
+        );
+        cached = cache.hit;
+        streamUsage = usage;
+
+        res.status(200).type('application/x-ndjson');
+        res.setHeader('Cache-Control', 'no-cache');
+        started = true;
+
+        for await (const text of stream) {
+            writeEvent({ text });
+        }
+        writeEvent({ done: true, generatedBy, usage, cached });
+        res.end();
+    } catch (error) {
+        if (error instanceof ProviderChainError) streamUsage = error.usage;
+        if (controller.signal.aborted) return;
+        if (!started) return sendError(res, 'summary stream', error);
+
+        console.error('AI gateway summary stream interrupted:', (error as Error).message);
+        writeEvent({ error: 'The AI provider stopped while writing the summary.', code: 'PROVIDER_ERROR', usage: streamUsage });
+        res.end();
+    } finally {
+        // Cancelled streams are charged whatever the provider reported before they stopped
+        await recordSpend(userIdOf(res), streamUsage);
+    }
+});
+
+/**
+ * One-line startup description for the server log (never includes key material)
+ */
+export const describeAiGateway = () => {
+    const configured = listProviders().filter(provider => provider.configured).map(provider => provider.id);
+    const auth = config.aiAuthDisabled
+        ? 'DISABLED (AI_GATEWAY_AUTH=disabled)'
+        : config.clerkSecretKey || config.clerkJwtKey ? 'Clerk' : 'not configured';
+    const budget = config.aiMonthlyBudgetUsd !== null ? `$${config.aiMonthlyBudgetUsd} per user per month` : 'none';
+    return `AI providers: ${configured.length > 0 ? configured.join(', ') : 'none configured'}, auth: ${auth}, budget: ${budget}`;
+};
@@ -0,0 +1,171 @@
+import { config } from './config.js';
+import type { GeneratedBy, ProviderUsage } from '../types';
+import type { AICallOptions, AIOperation, AIProvider, AIProviderPreference, ProviderInfo } from '../services/aiProvider';
+import { openaiProvider } from '../services/openaiService';
+import { geminiProvider } from '../services/geminiService';
+import { localModelProvider } from '../services/localModelService';
+import { createMockProvider, parseMockOperations } from '../services/mockAIService';
+import { AIValidationError } from '../services/aiSchemas';
+import { getPromptVersion } from '../services/promptTemplates';
+
+/**
+ * Provider registry and fallback chain for the AI gateway.
+ * Operations run on the user's preferred provider first, then on every other
+ * configured provider until one succeeds. Providers validate their own output
+ * (see aiSchemas), so malformed responses surface as errors here.
+ */
+
+const registry = new Map<string, AIProvider>();
+
+export const registerProvider = (provider: AIProvider) => {
+    registry.set(provider.id, provider);
+};
+
+registerProvider(openaiProvider);
+registerProvider(geminiProvider);
+registerProvider(localModelProvider);
+registerProvider(createMockProvider({
+    latencyMs: config.mockAi.latencyMs,
+    failureRate: config.mockAi.failureRate,
+    failOperations: parseMockOperations(config.mockAi.failOperations),
+}, () => config.mockAi.enabled));
+
+export const listProviders = (): ProviderInfo[] =>
+    [...registry.values()].map(provider => ({
+        id: provider.id,
+        label: provider.label,
+        models: provider.models,
+        defaultModel: provider.defaultModel,
+        configured: provider.isConfigured(),
+    }));
+
+export const hasConfiguredProvider = () => [...registry.values()].some(provider => provider.isConfigured());
+
+/**
+ * Configured providers in the order they should be tried:
+ * the user's choice, then the server default (AI_PROVIDER), then the rest in registration order
+ */
+export const getProviderChain = (preference: AIProviderPreference = {}): AIProvider[] => {
+    const order = [preference.provider, config.aiProvider, ...registry.keys()];
+    const chain: AIProvider[] = [];
+
+    for (const id of order) {
+        const provider = id ? registry.get(id) : undefined;
+        if (provider && provider.isConfigured() && !chain.includes(provider)) {
+            chain.push(provider);
+        }
+    }
+
+    return chain;
+};
+
+export interface ProviderAttempt {
+    provider: string;
+    error: string;
+    invalidResponse: boolean; // The provider answered, but not in the expected schema
+}
+
+export class ProviderChainError extends Error {
+    constructor(public attempts: ProviderAttempt[], public usage: ProviderUsage[] = []) {
+        super(`All AI providers failed: ${attempts.map(a => `${a.provider} (${a.error})`).join(', ')}`);
+        this.name = 'ProviderChainError';
+    }
+
+    // True when every provider responded but none produced valid output
+    get onlyInvalidResponses() {
+        return this.attempts.length > 0 && this.attempts.every(a => a.invalidResponse);
+    }
+}
+
+// A chosen model only applies to the chosen provider; fallbacks use their own default
+const chooseModel = (provider: AIProvider, operationName: AIOperation, preference: AIProviderPreference) =>
+    preference.provider === provider.id && preference.model && provider.models.includes(preference.model)
+        ? preference.model
+        : provider.modelForOperation?.(operationName) ?? provider.defaultModel;
+
+/**
+ * Call options for one provider attempt; token counts are added to `usage` per provider and model
+ */
+const attemptOptions = (provider: AIProvider, model: string, usage: ProviderUsage[], signal?: AbortSignal): AICallOptions => ({
+    model,
+    signal,
+    onUsage: ({ inputTokens, outputTokens }) => {
+        let entry = usage.find(u => u.provider === provider.id && u.model === model);
+        if (!entry) {
+            entry = { provider: provider.id, model, inputTokens: 0, outputTokens: 0 };
+            usage.push(entry);
+        }
+        entry.inputTokens += inputTokens;
+        entry.outputTokens += outputTokens;
+    },
+});
+
+const recordFailure = (attempts: ProviderAttempt[], provider: AIProvider, model: string, error: unknown) => {
+    console.error(`AI provider ${provider.id} (${model}) failed:`, (error as Error).message);
+    attempts.push({
+        provider: provider.id,
+        error: (error as Error).message,
+        invalidResponse: error instanceof AIValidationError,
+    });
+};
+
+/**
+ * Runs an operation down the provider chain until one provider succeeds;
+ * the winning provider and the prompt version are reported as `generatedBy`, and `usage` covers every attempt.
+ */
+export const runWithFallback = async <T>(
+    operationName: AIOperation,
+    preference: AIProviderPreference,
+    operation: (provider: AIProvider, options: AICallOptions) => Promise<T>
+): Promise<{ result: T; generatedBy: GeneratedBy; usage: ProviderUsage[] }> => {
+    const attempts: ProviderAttempt[] = [];
+    const usage: ProviderUsage[] = [];
+
+    for (const provider of getProviderChain(preference)) {
+        const model = chooseModel(provider, operationName, preference);
+        try {
+            const result = await operation(provider, attemptOptions(provider, model, usage));
+            return { result, generatedBy: { provider: provider.id, model, promptVersion: getPromptVersion(operationName) }, usage };
+        } catch (error) {
+            recordFailure(attempts, provider, model, error);
+        }
+    }
+
+    throw new ProviderChainError(attempts, usage);
+};
+
+// Puts an already-read first item back in front of the rest of the stream
+async function* resumeStream<T>(first: IteratorResult<T>, iterator: AsyncIterator<T>): AsyncGenerator<T> {
+    for (let next = first; !next.done; next = await iterator.next()) {
+        yield next.value;
+    }
+}
+
+/**
+ * Streaming counterpart of runWithFallback. A provider counts as successful once its
+ * first chunk arrives; failures after that point can no longer fall back and reach the caller.
+ * `usage` keeps filling while the stream runs and is complete once it ends.
+ */
+export const openStreamWithFallback = async <T>(
+    operationName: AIOperation,
+    preference: AIProviderPreference,
+    signal: AbortSignal,
+    operation: (provider: AIProvider, options: AICallOptions) => AsyncIterable<T>
+): Promise<{ stream: AsyncIterable<T>; generatedBy: GeneratedBy; usage: ProviderUsage[] }> => {
+    const attempts: ProviderAttempt[] = [];
+    const usage: ProviderUsage[] = [];
+
+    for (const provider of getProviderChain(preference)) {
+        const model = chooseModel(provider, operationName, preference);
+        try {
+            const iterator = operation(provider, attemptOptions(provider, model, usage, signal))[Symbol.asyncIterator]();
+            const first = await iterator.next();
+            const generatedBy = { provider: provider.id, model, promptVersion: getPromptVersion(operationName) };
+            return { stream: resumeStream(first, iterator), generatedBy, usage };
+        } catch (error) {
+            recordFailure(attempts, provider, model, error);
+        }
+    }
+
+    throw new ProviderChainError(attempts, usage);
+};
@@ -0,0 +1,231 @@
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import { BlockList, isIP } from 'node:net';
+import { pipeline } from 'node:stream';
+import { createBrotliDecompress, createGunzip, createInflate } from 'node:zlib';
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+import { cleanInlineText, htmlToLines, splitLinesIntoSections } from '../services/htmlText.ts';
+
+// Pages larger than this (decompressed) are refused instead of parsed
+const MAX_ARTICLE_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+
+const REQUEST_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (compatible; LearnForge/1.0)',
+    Accept: 'text/html,application/xhtml+xml',
+    'Accept-Encoding': 'gzip, deflate, br',
+};
+
+// Addresses the server must never be made to request: loopback, private, link-local, unique-local and reserved
+export const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+]) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+]) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class ArticleError extends Error {
+    constructor(code, status, message) {
+        super(message);
+        this.name = 'ArticleError';
+        this.code = code;
+        this.status = status;
+    }
+}
+
+const blockedError = () => new ArticleError('BLOCKED_URL', 400, 'This address cannot be fetched.');
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges
+const isBlockedAddress = (blockedAddresses, address) =>
+    blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+/**
+ * A `lookup` for http(s).request that refuses hosts resolving to a blocked address
+ * (checked for every address they resolve to). The socket connects to the address
+ * checked here, so a host cannot pass with a public address and then be requested
+ * at an internal one (DNS rebinding).
+ */
+const createPublicLookup = (blockedAddresses, resolve) => (hostname, options, callback) => {
+    resolve(hostname, { all: true, verbatim: true }, (error, addresses) => {
+        if (error) return callback(error);
+        if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(blockedAddresses, address))) {
+            return callback(blockedError());
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+/**
+ * Refuse URLs the server should not fetch on a client's behalf: anything but http(s),
+ * and IP addresses that are blocked. Host names are checked when they are resolved for
+ * the connection (createPublicLookup), since IP addresses skip that lookup.
+ */
+const assertPublicUrl = (url, blockedAddresses) => {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ArticleError('INVALID_URL', 400, 'Only http and https URLs are supported.');
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(hostname) && isBlockedAddress(blockedAddresses, hostname)) {
+        throw blockedError();
+    }
+};
+
+/**
+ * Send one GET request, resolving once the response headers arrive
+ */
+const requestUrl = (url, lookup, signal) => new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, { headers: REQUEST_HEADERS, lookup, signal }, resolve);
+    request.on('error', error => reject(
+        error instanceof ArticleError ? error : new ArticleError('UNREACHABLE', 502, `Could not reach ${url.hostname}.`)
+    ));
+});
+
+/**
+ * Fetch a URL, following redirects by hand so every hop is checked like the first.
+ * Returns the response and the URL it finally came from.
+ */
+const fetchPublicUrl = async (startUrl, { blockedAddresses, lookup }, signal) => {
+    const publicLookup = createPublicLookup(blockedAddresses, lookup);
+    let url = startUrl;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        assertPublicUrl(url, blockedAddresses);
+        const response = await requestUrl(url, publicLookup, signal);
+
+        const location = response.headers.location;
+        if (response.statusCode < 300 || response.statusCode >= 400 || !location) {
+            return { response, url };
+        }
+
+        response.destroy();
+        try {
+            url = new URL(location, url);
+        } catch {
+            throw new ArticleError('UNREACHABLE', 502, 'The page redirected to an invalid URL.');
+        }
+    }
+    throw new ArticleError('UNREACHABLE', 502, 'The page redirected too many times.');
+};
+
+const DECOMPRESSORS = {
+    gzip: createGunzip,
+    'x-gzip': createGunzip,
+    deflate: createInflate,
+    br: createBrotliDecompress,
+};
+
+// The body as sent, or decompressed when the server used one of the encodings requested
+const decodedBody = (response) => {
+    const createDecompressor = DECOMPRESSORS[(response.headers['content-encoding'] || '').trim().toLowerCase()];
+    // pipeline passes a failed or aborted response on as an error of the decompressed stream
+    return createDecompressor ? pipeline(response, createDecompressor(), () => {}) : response;
+};
+
+/**
+ * Read the body as UTF-8 text, refusing it as soon as it grows past MAX_ARTICLE_BYTES,
+ * so a huge or endless response is never held in memory
+ */
+const readLimitedText = async (response) => {
+    const tooLarge = () => new ArticleError('TOO_LARGE', 413, 'The page is too large to process.');
+
+    if (Number(response.headers['content-length']) > MAX_ARTICLE_BYTES) {
+        response.destroy();
+        throw tooLarge();
+    }
+
+    const body = decodedBody(response);
+    const decoder = new TextDecoder();
+    let received = 0;
+    let text = '';
+    try {
+        for await (const chunk of body) {
+            received += chunk.byteLength;
+            if (received > MAX_ARTICLE_BYTES) throw tooLarge();
+            text += decoder.decode(chunk, { stream: true });
+        }
+    } catch (error) {
+        throw error instanceof ArticleError ? error : new ArticleError('UNREACHABLE', 502, 'The page stopped responding.');
+    } finally {
+        response.destroy();
+    }
+    return text + decoder.decode();
+};
+
+/**
+ * Fetch a web page and extract its readable main content.
+ * Returns the same shape as ProcessedContent on the client.
+ *
+ * `options.blockedAddresses` (a BlockList) and `options.lookup` (dns.lookup's signature)
+ * replace the blocked ranges and the resolver, for the article check against local servers.
+ */
+export const fetchArticle = async (rawUrl, options = {}) => {
+    let requestedUrl;
+    try {
+        requestedUrl = new URL(rawUrl);
+    } catch {
+        throw new ArticleError('INVALID_URL', 400, 'Invalid URL.');
+    }
+
+    // One deadline for every redirect hop and the body
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    const { response, url } = await fetchPublicUrl(requestedUrl, {
+        blockedAddresses: options.blockedAddresses ?? BLOCKED_ADDRESSES,
+        lookup: options.lookup ?? dns.lookup,
+    }, signal);
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+        response.destroy();
+        throw response.statusCode === 404
+            ? new ArticleError('NOT_FOUND', 404, 'The page could not be found.')
+            : new ArticleError('UNREACHABLE', 502, `The page responded with status ${response.statusCode}.`);
+    }
+    if (!(response.headers['content-type'] || '').includes('html')) {
+        response.destroy();
+        throw new ArticleError('NOT_HTML', 415, 'The URL does not point to a web page.');
+    }
+
+    const html = await readLimitedText(response);
+
+    const { document } = parseHTML(html);
+    const pageTitle = cleanInlineText(document.querySelector('title')?.textContent);
+    const article = new Readability(document).parse();
+
+    if (!article?.content) {
+        throw new ArticleError('NO_CONTENT', 422, 'No readable article content was found on this page.');
+    }
+
+    const title = cleanInlineText(article.title) || pageTitle || url.hostname;
+    const author = cleanInlineText(article.byline) || undefined;
+
+    // The byline is reported separately, so drop it if it was left inside the content
+    const { document: contentDocument } = parseHTML(`<!DOCTYPE html><html><body>${article.content}</body></html>`);
+    const lines = htmlToLines(contentDocument.body)
+        .filter(line => !author || (line !== author && line !== `By ${author}`));
+
+    if (lines.length === 0) {
+        throw new ArticleError('NO_CONTENT', 422, 'No readable article content was found on this page.');
+    }
+
+    return {
+        text: [`# ${title}`, author && `By ${author}`, '', ...lines].filter(line => line !== undefined).join('\n'),
+        type: 'ARTICLE',
+        segments: splitLinesIntoSections(lines),
+        metadata: {
+            title,
+            url: url.href,
+            author,
+            siteName: cleanInlineText(article.siteName) || url.hostname,
+        },
+    };
+};
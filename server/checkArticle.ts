@@ -0,0 +1,234 @@
+/**
+ * Article fetcher check
+ *
+ * Runs fetchArticle against a local fixture server, without network access:
+ *
+ *   npm run check:article
+ *
+ * The fixture listens on loopback, which the fetcher blocks, so the scenarios that
+ * read from it pass a block list without the loopback ranges and a stub resolver for
+ * the `.test` host names. The rest use the real block list to check that internal
+ * addresses are refused, directly, through DNS and after a redirect, and that
+ * oversized pages are refused whether or not they declare their size.
+ */
+
+import http from 'node:http';
+import type { LookupAddress } from 'node:dns';
+import { BlockList, type AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { ArticleError, fetchArticle } from './article.js';
+
+const ARTICLE_HTML = `<!DOCTYPE html>
+<html><head><title>Hash tables explained</title></head>
+<body>
+  <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+  <article>
+    <h1>Hash tables explained</h1>
+    <p class="byline">By Ada Example</p>
+    <p>A hash table stores values in an array of buckets. A hash function turns each key into the index of its bucket, so a lookup does not have to search the whole table.</p>
+    <h2>Collisions</h2>
+    <p>Two keys can hash to the same bucket. Chaining keeps a short list in every bucket, while open addressing probes the following buckets until it finds a free one.</p>
+    <p>When the table fills up, it is resized and every key is hashed again, which keeps lookups fast on average.</p>
+  </article>
+  <footer>Copyright notice</footer>
+</body></html>`;
+
+const MAX_ARTICLE_BYTES = 5 * 1024 * 1024;
+
+// Paths the fixture serves; every request is recorded so blocked fetches can be shown to send nothing
+const startFixture = async () => {
+    const requests: string[] = [];
+    let port = 0;
+
+    const server = http.createServer((req, res) => {
+        requests.push(`${req.headers.host}${req.url}`);
+        const path = new URL(req.url ?? '/', 'http://fixture').pathname;
+
+        if (path === '/article') {
+            res.setHeader('Content-Type', 'text/html; charset=utf-8');
+            res.end(ARTICLE_HTML);
+        } else if (path === '/article-gzip') {
+            res.setHeader('Content-Type', 'text/html; charset=utf-8');
+            res.setHeader('Content-Encoding', 'gzip');
+            res.end(gzipSync(ARTICLE_HTML));
+        } else if (path === '/moved') {
+            res.writeHead(302, { Location: '/article' }).end();
+        } else if (path === '/to-metadata-ip') {
+            res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' }).end();
+        } else if (path === '/to-metadata-host') {
+            res.writeHead(301, { Location: `http://metadata.test:${port}/article` }).end();
+        } else if (path === '/loop') {
+            res.writeHead(302, { Location: '/loop' }).end();
+        } else if (path === '/declared-huge') {
+            res.writeHead(200, { 'Content-Type': 'text/html', 'Content-Length': MAX_ARTICLE_BYTES + 1 });
+            res.end();
+        } else if (path === '/streamed-huge') {
+            // Chunked with no declared size, longer than the limit if the client keeps reading
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            const chunk = Buffer.alloc(64 * 1024, 'a');
+            let sent = 0;
+            const write = () => {
+                while (sent <= 2 * MAX_ARTICLE_BYTES && !res.destroyed) {
+                    sent += chunk.length;
+                    if (!res.write(chunk)) return res.once('drain', write);
+                }
+                res.end();
+            };
+            write();
+        } else if (path === '/gzip-bomb') {
+            res.writeHead(200, { 'Content-Type': 'text/html', 'Content-Encoding': 'gzip' });
+            res.end(gzipSync(Buffer.alloc(MAX_ARTICLE_BYTES + 1, 'a')));
+        } else if (path === '/not-html') {
+            res.setHeader('Content-Type', 'application/pdf');
+            res.end('%PDF-1.4');
+        } else {
+            res.writeHead(404).end();
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+    return { port, requests, close: () => server.close() };
+};
+
+// The real ranges except loopback, so the fixture can be reached
+const FIXTURE_BLOCKED_ADDRESSES = new BlockList();
+FIXTURE_BLOCKED_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+FIXTURE_BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+FIXTURE_BLOCKED_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+FIXTURE_BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+// `.test` names resolve here instead of through DNS; everything else is unknown
+const STUB_HOSTS: Record<string, LookupAddress[]> = {
+    'article.test': [{ address: '127.0.0.1', family: 4 }],
+    'metadata.test': [{ address: '169.254.169.254', family: 4 }],
+    'mixed.test': [{ address: '93.184.216.34', family: 4 }, { address: '127.0.0.1', family: 4 }],
+};
+
+const stubLookup = (hostname: string, _options: unknown, callback: (error: Error | null, addresses?: LookupAddress[]) => void) => {
+    const addresses = STUB_HOSTS[hostname];
+    if (addresses) callback(null, addresses);
+    else callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' }));
+};
+
+const FIXTURE_OPTIONS = { blockedAddresses: FIXTURE_BLOCKED_ADDRESSES, lookup: stubLookup };
+
+type Article = Awaited<ReturnType<typeof fetchArticle>>;
+
+interface Scenario {
+    name: string;
+    url: (port: number) => string;
+    options?: typeof FIXTURE_OPTIONS | { lookup: typeof stubLookup };
+    // Either the ArticleError code expected, or checks on the extracted article
+    expectCode?: string;
+    checkArticle?: (article: Article, port: number) => string[];
+    // Whether the fixture may receive any request at all
+    reachesFixture: boolean;
+}
+
+const checkHashTableArticle = (article: Article) => {
+    const failures: string[] = [];
+    if (article.metadata.title !== 'Hash tables explained') failures.push(`unexpected title "${article.metadata.title}"`);
+    if (!article.text.includes('A hash function turns each key')) failures.push('the article text is missing');
+    if (article.text.includes('Copyright notice') || article.text.includes('About')) failures.push('page chrome was kept');
+    if (article.segments.length === 0) failures.push('no sections were found');
+    return failures;
+};
+
+const SCENARIOS: Scenario[] = [
+    {
+        name: 'readable article',
+        url: port => `http://127.0.0.1:${port}/article`,
+        options: FIXTURE_OPTIONS,
+        checkArticle: checkHashTableArticle,
+        reachesFixture: true,
+    },
+    {
+        name: 'gzip-encoded article',
+        url: port => `http://127.0.0.1:${port}/article-gzip`,
+        options: FIXTURE_OPTIONS,
+        checkArticle: checkHashTableArticle,
+        reachesFixture: true,
+    },
+    {
+        name: 'host name connects to the address it was checked at',
+        url: port => `http://article.test:${port}/article`,
+        options: FIXTURE_OPTIONS,
+        checkArticle: checkHashTableArticle,
+        reachesFixture: true,
+    },
+    {
+        name: 'redirect to an allowed page',
+        url: port => `http://127.0.0.1:${port}/moved`,
+        options: FIXTURE_OPTIONS,
+        checkArticle: (article, port) => [
+            ...checkHashTableArticle(article),
+            ...(article.metadata.url === `http://127.0.0.1:${port}/article` ? [] : [`unexpected final URL ${article.metadata.url}`]),
+        ],
+        reachesFixture: true,
+    },
+    { name: 'loopback address', url: port => `http://127.0.0.1:${port}/article`, expectCode: 'BLOCKED_URL', reachesFixture: false },
+    { name: 'IPv6 loopback address', url: port => `http://[::1]:${port}/article`, expectCode: 'BLOCKED_URL', reachesFixture: false },
+    { name: 'IPv4-mapped loopback address', url: port => `http://[::ffff:127.0.0.1]:${port}/article`, expectCode: 'BLOCKED_URL', reachesFixture: false },
+    { name: 'host name resolving to loopback', url: port => `http://localhost:${port}/article`, expectCode: 'BLOCKED_URL', reachesFixture: false },
+    {
+        name: 'host name resolving to a public and a loopback address',
+        url: port => `http://mixed.test:${port}/article`,
+        options: { lookup: stubLookup },
+        expectCode: 'BLOCKED_URL',
+        reachesFixture: false,
+    },
+    { name: 'non-http URL', url: () => 'file:///etc/passwd', expectCode: 'INVALID_URL', reachesFixture: false },
+    {
+        name: 'redirect to a link-local address',
+        url: port => `http://127.0.0.1:${port}/to-metadata-ip`,
+        options: FIXTURE_OPTIONS,
+        expectCode: 'BLOCKED_URL',
+        reachesFixture: true,
+    },
+    {
+        name: 'redirect to a host name resolving to a link-local address',
+        url: port => `http://127.0.0.1:${port}/to-metadata-host`,
+        options: FIXTURE_OPTIONS,
+        expectCode: 'BLOCKED_URL',
+        reachesFixture: true,
+    },
+    { name: 'redirect loop', url: port => `http://127.0.0.1:${port}/loop`, options: FIXTURE_OPTIONS, expectCode: 'UNREACHABLE', reachesFixture: true },
+    { name: 'declared size over the limit', url: port => `http://127.0.0.1:${port}/declared-huge`, options: FIXTURE_OPTIONS, expectCode: 'TOO_LARGE', reachesFixture: true },
+    { name: 'streamed body over the limit', url: port => `http://127.0.0.1:${port}/streamed-huge`, options: FIXTURE_OPTIONS, expectCode: 'TOO_LARGE', reachesFixture: true },
+    { name: 'decompressed body over the limit', url: port => `http://127.0.0.1:${port}/gzip-bomb`, options: FIXTURE_OPTIONS, expectCode: 'TOO_LARGE', reachesFixture: true },
+    { name: 'not a web page', url: port => `http://127.0.0.1:${port}/not-html`, options: FIXTURE_OPTIONS, expectCode: 'NOT_HTML', reachesFixture: true },
+    { name: 'missing page', url: port => `http://127.0.0.1:${port}/missing`, options: FIXTURE_OPTIONS, expectCode: 'NOT_FOUND', reachesFixture: true },
+];
+
+const runScenario = async (scenario: Scenario): Promise<string[]> => {
+    const fixture = await startFixture();
+    const failures: string[] = [];
+    try {
+        const article = await fetchArticle(scenario.url(fixture.port), scenario.options);
+        if (scenario.expectCode) failures.push(`expected ${scenario.expectCode}, got an article`);
+        else failures.push(...(scenario.checkArticle?.(article, fixture.port) ?? []));
+    } catch (error) {
+        const code = error instanceof ArticleError ? error.code : undefined;
+        if (!scenario.expectCode) failures.push(`failed: ${(error as Error).message}`);
+        else if (code !== scenario.expectCode) failures.push(`expected ${scenario.expectCode}, got ${code ?? (error as Error).message}`);
+    } finally {
+        fixture.close();
+    }
+    if (!scenario.reachesFixture && fixture.requests.length > 0) {
+        failures.push(`the fixture was requested: ${fixture.requests.join(', ')}`);
+    }
+
+    console.log(`${failures.length === 0 ? 'ok  ' : 'FAIL'} ${scenario.name}${failures.map(f => `\n     ${f}`).join('')}`);
+    return failures;
+};
+
+let failed = 0;
+for (const scenario of SCENARIOS) {
+    if ((await runScenario(scenario)).length > 0) failed++;
+}
+
+if (failed > 0) {
+    console.error(`${failed} of ${SCENARIOS.length} scenarios failed`);
+    process.exit(1);
+}
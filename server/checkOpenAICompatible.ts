@@ -0,0 +1,142 @@
+/**
+ * OpenAI-compatible provider check
+ *
+ * Runs createOpenAICompatibleProvider against a stub chat completions server in every
+ * JSON mode, without an API key or a model:
+ *
+ *   npm run check:openai-compatible
+ *
+ * Each scenario generates one question and checks which requests reached the stub:
+ * whether `response_format` was sent, and whether the prompt-only fallback added the
+ * JSON instruction. The prompt-only answers are wrapped in prose and code fences, as
+ * small local models tend to do, so the lenient parsing is exercised as well.
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import OpenAI from 'openai';
+import { MasteryLevel, type Concept } from '../types.ts';
+import { createOpenAICompatibleProvider, type OpenAICompatibleBackend } from '../services/openaiService.ts';
+import { JSON_ONLY_INSTRUCTION } from '../services/jsonResponse.ts';
+
+// How the stub answers a request that asks for JSON mode
+type StubJsonMode = 'supported' | 'rejected' | 'broken';
+
+interface StubRequest {
+    jsonFormat: boolean;
+    systemPrompt: string;
+}
+
+const QUESTION = {
+    text: 'What does a hash table use to find the bucket for a key?',
+    type: 'SHORT_ANSWER',
+    correctAnswerContext: 'A hash function maps the key to a bucket index.',
+    rubric: [{ description: 'Names the hash function', weight: 1 }],
+};
+
+const CONCEPT: Concept = {
+    id: 'hash-table',
+    title: 'Hash table',
+    description: 'A structure that maps keys to values through a hash function.',
+    dependencies: [],
+    masteryLevel: MasteryLevel.RECOGNITION,
+    mistakes: [],
+};
+
+const completion = (content: string) => ({
+    id: 'stub',
+    object: 'chat.completion',
+    created: 0,
+    model: 'stub-model',
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+    usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+});
+
+/**
+ * Starts a chat completions stub on a free port, recording every request it receives
+ */
+const startStub = async (jsonMode: StubJsonMode) => {
+    const requests: StubRequest[] = [];
+
+    const server = http.createServer(async (req, res) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const body = JSON.parse(raw);
+        const jsonFormat = body.response_format?.type === 'json_object';
+        requests.push({ jsonFormat, systemPrompt: body.messages[0]?.content ?? '' });
+
+        res.setHeader('Content-Type', 'application/json');
+        if (jsonFormat && jsonMode === 'rejected') {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: { message: 'response_format is not supported' } }));
+        } else if (jsonFormat) {
+            res.end(JSON.stringify(completion(jsonMode === 'broken' ? 'Sure! Here is a question.' : JSON.stringify(QUESTION))));
+        } else {
+            res.end(JSON.stringify(completion(`Here is the question:\n\`\`\`json\n${JSON.stringify(QUESTION)}\n\`\`\`\nGood luck!`)));
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return { baseURL: `http://127.0.0.1:${port}/v1`, requests, close: () => server.close() };
+};
+
+interface Scenario {
+    name: string;
+    backendMode: OpenAICompatibleBackend['jsonMode'];
+    stubMode: StubJsonMode;
+    expected: boolean[]; // Whether each request the stub receives asks for JSON mode
+}
+
+const SCENARIOS: Scenario[] = [
+    { name: 'native, JSON mode supported', backendMode: 'native', stubMode: 'supported', expected: [true] },
+    { name: 'auto, JSON mode supported', backendMode: 'auto', stubMode: 'supported', expected: [true] },
+    { name: 'auto, JSON mode rejected', backendMode: 'auto', stubMode: 'rejected', expected: [true, false] },
+    { name: 'auto, JSON mode returns prose', backendMode: 'auto', stubMode: 'broken', expected: [true, false] },
+    { name: 'prompt', backendMode: 'prompt', stubMode: 'rejected', expected: [false] },
+];
+
+const runScenario = async ({ name, backendMode, stubMode, expected }: Scenario): Promise<string[]> => {
+    const stub = await startStub(stubMode);
+    const failures: string[] = [];
+    try {
+        const client = new OpenAI({ baseURL: stub.baseURL, apiKey: 'stub', maxRetries: 0 });
+        const provider = createOpenAICompatibleProvider({
+            id: 'stub',
+            label: 'Stub',
+            getClient: () => client,
+            isConfigured: () => true,
+            getModels: () => ['stub-model'],
+            getModel: () => 'stub-model',
+            jsonMode: backendMode,
+        });
+
+        const question = await provider.generateQuestion(CONCEPT, [CONCEPT], []);
+        if (question.text !== QUESTION.text) failures.push(`unexpected question text "${question.text}"`);
+
+        const sent = stub.requests.map(request => request.jsonFormat);
+        if (sent.join() !== expected.join()) {
+            failures.push(`expected JSON mode per request [${expected.join(', ')}], got [${sent.join(', ')}]`);
+        }
+        if (stub.requests.some(request => !request.jsonFormat && !request.systemPrompt.endsWith(JSON_ONLY_INSTRUCTION))) {
+            failures.push('a prompt-only request is missing the JSON instruction');
+        }
+    } catch (error) {
+        failures.push(`failed: ${(error as Error).message}`);
+    } finally {
+        stub.close();
+    }
+
+    console.log(`${failures.length === 0 ? 'ok  ' : 'FAIL'} ${name}${failures.map(f => `\n     ${f}`).join('')}`);
+    return failures;
+};
+
+let failed = 0;
+for (const scenario of SCENARIOS) {
+    if ((await runScenario(scenario)).length > 0) failed++;
+}
+
+if (failed > 0) {
+    console.error(`${failed} of ${SCENARIOS.length} scenarios failed`);
+    process.exit(1);
+}
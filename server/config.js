@@ -0,0 +1,54 @@
+import path from 'node:path';
+
+/**
+ * Proxy configuration, read from the environment
+ * (e.g. `PROXY_PORT=4000 npm run proxy`). `.env.local` and `.env` are loaded if present;
+ * variables already set in the shell take precedence.
+ */
+
+for (const file of ['.env.local', '.env']) {
+    try {
+        process.loadEnvFile(file);
+    } catch {
+        // Missing env files are fine
+    }
+}
+
+const parseList = (value) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+export const config = {
+    port: Number(process.env.PROXY_PORT || process.env.PORT || 3001),
+
+    // Browser origins allowed to call the proxy; requests without an Origin header (curl, server-side) are always allowed
+    allowedOrigins: parseList(process.env.PROXY_ALLOWED_ORIGINS).length > 0
+        ? parseList(process.env.PROXY_ALLOWED_ORIGINS)
+        : ['http://localhost:3000', 'http://localhost:5173'],
+
+    transcriptCacheDir: process.env.TRANSCRIPT_CACHE_DIR || path.join(process.cwd(), '.cache', 'transcripts'),
+    transcriptCacheTtlMs: Number(process.env.TRANSCRIPT_CACHE_TTL_HOURS || 24 * 30) * 60 * 60 * 1000,
+
+    // AI results by content hash; AI_CACHE_TTL_HOURS=0 turns the cache off, an empty value keeps the default
+    aiCacheDir: process.env.AI_CACHE_DIR || path.join(process.cwd(), '.cache', 'ai'),
+    aiCacheTtlMs: Number(process.env.AI_CACHE_TTL_HOURS || 24 * 30) * 60 * 60 * 1000,
+
+    // Per-user spending against the monthly budget (AI_MONTHLY_BUDGET_USD, unset for no limit), priced with AI_PRICES
+    aiUsageDir: process.env.AI_USAGE_DIR || path.join(process.cwd(), '.cache', 'usage'),
+    aiMonthlyBudgetUsd: Number(process.env.AI_MONTHLY_BUDGET_USD) > 0 ? Number(process.env.AI_MONTHLY_BUDGET_USD) : null,
+    aiPrices: process.env.AI_PRICES || '',
+
+    // Default AI provider; provider credentials (OPENAI_API_KEY, GEMINI_API_KEY) are read by the providers themselves
+    aiProvider: (process.env.AI_PROVIDER || 'auto').toLowerCase(),
+
+    // Clerk session verification for the AI routes (either key works; the JWT key avoids a network round trip)
+    clerkSecretKey: process.env.CLERK_SECRET_KEY || '',
+    clerkJwtKey: process.env.CLERK_JWT_KEY || '',
+    aiAuthDisabled: process.env.AI_GATEWAY_AUTH === 'disabled',
+
+    // Deterministic mock provider for offline development (MOCK_AI=true, or AI_PROVIDER=mock)
+    mockAi: {
+        enabled: process.env.MOCK_AI === 'true' || process.env.AI_PROVIDER === 'mock',
+        latencyMs: Number(process.env.MOCK_AI_LATENCY_MS || 300),
+        failureRate: Number(process.env.MOCK_AI_FAILURE_RATE || 0),
+        failOperations: process.env.MOCK_AI_FAIL_OPERATIONS || '',
+    },
+};
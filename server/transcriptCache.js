@@ -0,0 +1,31 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from './config.js';
+
+/**
+ * On-disk transcript cache, one JSON file per video and caption language.
+ * Video IDs and language codes are validated by the routes before they reach this module.
+ */
+
+const cacheFile = (videoId, lang) => path.join(config.transcriptCacheDir, `${videoId}.${lang || 'default'}.json`);
+
+export const readCachedTranscript = async (videoId, lang) => {
+    const file = cacheFile(videoId, lang);
+    try {
+        const { mtimeMs } = await stat(file);
+        if (Date.now() - mtimeMs > config.transcriptCacheTtlMs) return null;
+        return JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+        return null;
+    }
+};
+
+export const writeCachedTranscript = async (videoId, lang, items) => {
+    try {
+        await mkdir(config.transcriptCacheDir, { recursive: true });
+        await writeFile(cacheFile(videoId, lang), JSON.stringify(items));
+    } catch (error) {
+        // A cache that cannot be written only costs a refetch next time
+        console.warn('Could not write transcript cache:', error.message);
+    }
+};
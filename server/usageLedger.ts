@@ -0,0 +1,88 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import { config } from './config.js';
+import type { ProviderUsage } from '../types';
+import { BudgetStatus, estimateCost, getBudgetStatus, loadPriceTable } from '../services/aiCost';
+
+/**
+ * Estimated AI spending per user and calendar month (UTC), which the gateway checks
+ * the monthly budget against. One JSON file per user; the browser's own ledger is
+ * only a display of the calls it made.
+ */
+
+interface MonthlySpend {
+    month: string; // e.g. "2025-03"
+    spent: number; // Estimated USD
+    calls: number;
+}
+
+const prices = loadPriceTable(config.aiPrices, 'AI_PRICES');
+
+// Models already reported as unpriced, so the log names each one once
+const unpricedModels = new Set<string>();
+
+// Clerk user IDs are hashed so that file names never depend on their format
+const ledgerFile = (userId: string) =>
+    path.join(config.aiUsageDir, `${createHash('sha256').update(userId).digest('hex')}.json`);
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+const readSpend = async (userId: string): Promise<MonthlySpend> => {
+    const month = currentMonth();
+    try {
+        const spend: MonthlySpend = JSON.parse(await readFile(ledgerFile(userId), 'utf8'));
+        if (spend.month === month) return spend;
+    } catch {
+        // No calls yet, or an unreadable file: start the month from zero
+    }
+    return { month, spent: 0, calls: 0 };
+};
+
+const callCost = (usage: ProviderUsage[]) => usage.reduce((sum, entry) => {
+    const cost = estimateCost(prices, entry);
+    if (cost !== null) return sum + cost;
+
+    const model = `${entry.provider}/${entry.model}`;
+    if (!unpricedModels.has(model)) {
+        unpricedModels.add(model);
+        console.warn(`No price for ${model}; add it to AI_PRICES to count its calls toward the budget`);
+    }
+    return sum;
+}, 0);
+
+// Updates of one user's file run one after another, so concurrent calls do not overwrite each other
+const pendingWrites = new Map<string, Promise<void>>();
+
+/**
+ * Charges one AI call (every provider it tried) to the user's monthly spend.
+ * Never throws: accounting must not turn a completed call into an error.
+ */
+export const recordSpend = (userId: string, usage: ProviderUsage[]): Promise<void> => {
+    if (usage.length === 0) return pendingWrites.get(userId) ?? Promise.resolve();
+
+    const write = (pendingWrites.get(userId) ?? Promise.resolve())
+        .then(async () => {
+            const spend = await readSpend(userId);
+            spend.spent += callCost(usage);
+            spend.calls++;
+            await mkdir(config.aiUsageDir, { recursive: true });
+            await writeFile(ledgerFile(userId), JSON.stringify(spend));
+        })
+        .catch(error => console.error('Could not record AI usage:', (error as Error).message));
+
+    pendingWrites.set(userId, write);
+    write.then(() => {
+        if (pendingWrites.get(userId) === write) pendingWrites.delete(userId);
+    });
+    return write;
+};
+
+/**
+ * The user's spending this month against AI_MONTHLY_BUDGET_USD
+ */
+export const getUserBudgetStatus = async (userId: string): Promise<BudgetStatus> => {
+    await pendingWrites.get(userId);
+    const { spent } = await readSpend(userId);
+    return getBudgetStatus(config.aiMonthlyBudgetUsd, spent);
+};
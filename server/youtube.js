@@ -0,0 +1,164 @@
+import {
+    YoutubeTranscript,
+    YoutubeTranscriptDisabledError,
+    YoutubeTranscriptNotAvailableError,
+    YoutubeTranscriptNotAvailableLanguageError,
+    YoutubeTranscriptTooManyRequestError,
+    YoutubeTranscriptVideoUnavailableError,
+} from 'youtube-transcript';
+import { readCachedTranscript, writeCachedTranscript } from './transcriptCache.js';
+
+// Longest playlist processed in one request; the rest is reported as skipped
+const MAX_PLAYLIST_VIDEOS = 50;
+
+// Transcripts with fewer characters than this are not worth extracting concepts from
+const MIN_TRANSCRIPT_LENGTH = 50;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+export class YouTubeError extends Error {
+    constructor(code, status, message) {
+        super(message);
+        this.name = 'YouTubeError';
+        this.code = code;
+        this.status = status;
+    }
+}
+
+/**
+ * Map youtube-transcript failures to stable error codes the client can show messages for
+ */
+export const classifyTranscriptError = (error) => {
+    if (error instanceof YouTubeError) return error;
+    if (error instanceof YoutubeTranscriptDisabledError) {
+        return new YouTubeError('CAPTIONS_DISABLED', 422, 'Captions are disabled for this video.');
+    }
+    if (error instanceof YoutubeTranscriptTooManyRequestError) {
+        return new YouTubeError('RATE_LIMITED', 429, 'YouTube is rate limiting requests. Please try again later.');
+    }
+    if (error instanceof YoutubeTranscriptNotAvailableLanguageError) {
+        return new YouTubeError('LANGUAGE_NOT_AVAILABLE', 404, 'No captions are available in the requested language.');
+    }
+    if (error instanceof YoutubeTranscriptVideoUnavailableError || error instanceof YoutubeTranscriptNotAvailableError) {
+        return new YouTubeError('NOT_FOUND', 404, 'The video is unavailable or has no transcript.');
+    }
+    return new YouTubeError('UNKNOWN', 500, 'Failed to fetch transcript.');
+};
+
+/**
+ * Fetch the caption items of one video, rejecting transcripts too short to learn from
+ */
+export const fetchTranscriptItems = async (videoId, config) => {
+    let items;
+    try {
+        items = await YoutubeTranscript.fetchTranscript(videoId, config);
+    } catch (error) {
+        throw classifyTranscriptError(error);
+    }
+
+    const length = items.reduce((sum, item) => sum + item.text.trim().length, 0);
+    if (length < MIN_TRANSCRIPT_LENGTH) {
+        throw new YouTubeError('TOO_SHORT', 422, 'The transcript is too short or empty.');
+    }
+    return items;
+};
+
+export const extractVideoId = (url) => {
+    const patterns = [
+        /(?:youtube\.com\/watch\?(?:.*&)?v=|youtu\.be\/|youtube\.com\/embed\/|youtube\.com\/shorts\/)([a-zA-Z0-9_-]{11})/,
+        /^([a-zA-Z0-9_-]{11})$/,
+    ];
+    for (const pattern of patterns) {
+        const match = String(url).match(pattern);
+        if (match) return match[1];
+    }
+    return null;
+};
+
+// Caption language codes such as 'en', 'pt-BR' or 'zh-Hans'
+export const isValidLanguageCode = (lang) => /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,4})?$/.test(lang);
+
+/**
+ * Fetch a transcript, serving it from the disk cache when it was fetched before
+ */
+export const getTranscript = async (videoId, lang) => {
+    const cached = await readCachedTranscript(videoId, lang);
+    if (cached) return cached;
+
+    const items = await fetchTranscriptItems(videoId, lang ? { lang } : undefined);
+    await writeCachedTranscript(videoId, lang, items);
+    return items;
+};
+
+export const extractPlaylistId = (url) => {
+    const match = String(url).match(/[?&]list=([a-zA-Z0-9_-]+)/) || String(url).match(/^(PL[a-zA-Z0-9_-]+)$/);
+    return match ? match[1] : null;
+};
+
+/**
+ * Recursively collect every object stored under the given key in YouTube's page data
+ */
+const collectRenderers = (node, key, found = []) => {
+    if (Array.isArray(node)) {
+        node.forEach(child => collectRenderers(child, key, found));
+    } else if (node && typeof node === 'object') {
+        for (const [childKey, child] of Object.entries(node)) {
+            if (childKey === key) found.push(child);
+            else collectRenderers(child, key, found);
+        }
+    }
+    return found;
+};
+
+const readText = (textNode) => textNode?.simpleText || textNode?.runs?.map(run => run.text).join('') || '';
+
+/**
+ * List the videos of a playlist from the ytInitialData embedded in its page
+ */
+export const fetchPlaylistVideos = async (playlistId) => {
+    let response;
+    try {
+        response = await fetch(`https://www.youtube.com/playlist?list=${playlistId}&hl=en`, {
+            headers: { 'User-Agent': 'Mozilla/5.0 (compatible; LearnForge/1.0)', 'Accept-Language': 'en' },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+    } catch {
+        throw new YouTubeError('UNKNOWN', 502, 'Could not reach YouTube.');
+    }
+    if (response.status === 429) {
+        throw new YouTubeError('RATE_LIMITED', 429, 'YouTube is rate limiting requests. Please try again later.');
+    }
+    if (!response.ok) {
+        throw new YouTubeError('NOT_FOUND', 404, 'The playlist could not be found.');
+    }
+
+    const html = await response.text();
+    const dataMatch = html.match(/var ytInitialData\s*=\s*(\{.+?\});\s*<\/script>/s);
+    if (!dataMatch) {
+        throw new YouTubeError('NOT_FOUND', 404, 'The playlist is private or does not exist.');
+    }
+
+    const data = JSON.parse(dataMatch[1]);
+    const title = readText(collectRenderers(data, 'playlistHeaderRenderer')[0]?.title)
+        || data?.metadata?.playlistMetadataRenderer?.title
+        || `YouTube Playlist (${playlistId})`;
+    const videos = collectRenderers(data, 'playlistVideoRenderer')
+        .filter(renderer => renderer.videoId)
+        .map(renderer => ({ videoId: renderer.videoId, title: readText(renderer.title) || `YouTube Video (${renderer.videoId})` }));
+
+    if (videos.length === 0) {
+        throw new YouTubeError('NOT_FOUND', 404, 'The playlist is empty or private.');
+    }
+
+    return { title, videos };
+};
+
+/**
+ * List up to MAX_PLAYLIST_VIDEOS videos of a playlist. Transcripts are fetched one by one
+ * through /transcript by the client, so it can report progress per video.
+ */
+export const listPlaylist = async (playlistId) => {
+    const { title, videos } = await fetchPlaylistVideos(playlistId);
+    const selected = videos.slice(0, MAX_PLAYLIST_VIDEOS);
+    return { playlistId, title, videos: selected, skipped: videos.length - selected.length };
+};
@@ -0,0 +1,78 @@
+/**
+ * Browser AI Cache
+ *
+ * IndexedDB store of AI results by content-addressed key (see aiCacheKey), so
+ * re-uploading the same material or reopening a summary does not call the AI again.
+ * Every failure degrades to a cache miss: caching must never break an AI call.
+ */
+
+import { AIOperation } from "./aiProvider";
+
+const DB_NAME = 'learnforge';
+const DB_VERSION = 1;
+const STORE_NAME = 'aiCache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Evaluations are not cached: a resubmitted answer is graded again
+export type CachedOperation = Exclude<AIOperation, 'evaluate'>;
+
+// How long a cached result is reused before it is generated again
+export const CACHE_TTL_MS: Record<CachedOperation, number> = {
+    extract: 30 * DAY_MS,
+    question: 30 * DAY_MS, // Question banks
+    summary: 7 * DAY_MS,
+};
+
+interface CacheEntry {
+    key: string;
+    operation: CachedOperation;
+    value: unknown;
+    expiresAt: number;
+}
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = () => database ??= new Promise<IDBDatabase | null>(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+        console.warn('AI cache unavailable:', request.error);
+        resolve(null);
+    };
+});
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> => {
+    const db = await openDatabase();
+    if (!db) return null;
+
+    return new Promise(resolve => {
+        try {
+            const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => resolve(null);
+        } catch (error) {
+            console.warn('AI cache request failed:', error);
+            resolve(null);
+        }
+    });
+};
+
+/**
+ * The cached value for `key`, or null when missing or expired
+ */
+export const readCache = async <T>(key: string): Promise<T | null> => {
+    const entry = await runRequest<CacheEntry | undefined>('readonly', store => store.get(key));
+    if (!entry || entry.expiresAt < Date.now()) return null;
+    return entry.value as T;
+};
+
+export const writeCache = async (key: string, operation: CachedOperation, value: unknown) => {
+    const entry: CacheEntry = { key, operation, value, expiresAt: Date.now() + CACHE_TTL_MS[operation] };
+    await runRequest('readwrite', store => store.put(entry));
+};
@@ -0,0 +1,47 @@
+/**
+ * AI Cache Keys
+ *
+ * Content-addressed keys for cached AI results, shared by the browser cache and
+ * the gateway's disk cache. A key is the SHA-256 of the operation, provider, model,
+ * prompt version and the normalised input that actually reaches the prompt, so
+ * formatting-only differences in the material still hit the cache.
+ */
+
+import { Concept, SourceSegment } from "../types";
+import { AIOperation } from "./aiProvider";
+import { getPromptVersion } from "./promptTemplates";
+
+const normaliseText = (text: string | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+export const extractCacheInput = (segments: SourceSegment[], knownConcepts: Concept[]) => ({
+    segments: segments.map(s => ({ id: s.id, source: normaliseText(s.sourceName), text: normaliseText(s.text) })),
+    known: knownConcepts.map(c => c.id).sort(),
+});
+
+// What the question prompt sees apart from the asked questions, so every question for a concept and level shares one bank
+export const questionCacheInput = (concept: Concept, allConcepts: Concept[]) => ({
+    level: concept.masteryLevel || 1,
+    title: normaliseText(concept.title),
+    description: normaliseText(concept.description),
+    related: allConcepts
+        .filter(c => concept.dependencies.includes(c.id) || c.dependencies.includes(concept.id))
+        .map(c => normaliseText(c.title))
+        .sort(),
+});
+
+export const summaryCacheInput = (concepts: Concept[]) => concepts.map(c => ({
+    title: normaliseText(c.title),
+    description: normaliseText(c.description),
+    level: c.masteryLevel,
+    dependencies: c.dependencies,
+    mistakes: c.mistakes.map(m => [normaliseText(m.question), normaliseText(m.userAnswer), normaliseText(m.correction), m.misunderstandingType || '', m.relatedConcept || '']),
+}));
+
+/**
+ * Hex SHA-256 key for one cached result; works in the browser and in Node
+ */
+export const computeCacheKey = async (operation: AIOperation, provider: string, model: string, input: unknown): Promise<string> => {
+    const payload = JSON.stringify({ operation, provider, model, promptVersion: getPromptVersion(operation), input });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,73 @@
+/**
+ * AI Cost
+ *
+ * List prices per model and the monthly budget status. Shared by the gateway, which
+ * charges every call against the signed-in user's budget, and the browser, which
+ * estimates the cost of each call it records for the Usage panel.
+ */
+
+import { ProviderUsage } from "../types";
+
+// USD per million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// Keys are "provider/model", or "provider/*" for every model of a provider
+export type PriceTable = Record<string, ModelPrice>;
+
+export type BudgetState = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+    limit: number | null; // USD per calendar month; null when no budget is set
+    spent: number; // This month's estimated cost
+    state: BudgetState;
+}
+
+// Share of the budget at which the app starts warning
+const BUDGET_WARNING_SHARE = 0.8;
+
+const DEFAULT_PRICES: PriceTable = {
+    'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'openai/gpt-4o': { input: 2.5, output: 10 },
+    'openai/gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'openai/gpt-4.1': { input: 2, output: 8 },
+    'gemini/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini/gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini/gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'local/*': { input: 0, output: 0 },
+    'mock/*': { input: 0, output: 0 },
+};
+
+/**
+ * The default price table merged with `overrides`, a JSON object in the same format
+ * read from the environment variable `variable`
+ */
+export const loadPriceTable = (overrides: string | undefined, variable: string): PriceTable => {
+    if (!overrides) return DEFAULT_PRICES;
+    try {
+        return { ...DEFAULT_PRICES, ...JSON.parse(overrides) };
+    } catch (error) {
+        console.error(`Ignoring invalid ${variable}:`, error);
+        return DEFAULT_PRICES;
+    }
+};
+
+/**
+ * Estimated USD cost of the tokens one provider used, or null when its model has no price
+ */
+export const estimateCost = (prices: PriceTable, usage: ProviderUsage): number | null => {
+    const price = prices[`${usage.provider}/${usage.model}`] ?? prices[`${usage.provider}/*`];
+    if (!price) return null;
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+/**
+ * Spending against a monthly limit; 'warning' from 80% of it
+ */
+export const getBudgetStatus = (limit: number | null, spent: number): BudgetStatus => {
+    if (limit === null) return { limit, spent, state: 'none' };
+    if (spent >= limit) return { limit, spent, state: 'exceeded' };
+    return { limit, spent, state: spent >= limit * BUDGET_WARNING_SHARE ? 'warning' : 'ok' };
+};
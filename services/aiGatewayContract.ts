@@ -0,0 +1,84 @@
+/**
+ * AI Gateway Contract
+ *
+ * Request and response bodies of the gateway's routes, shared by the server
+ * (server/aiGateway.ts), which narrows untrusted JSON into the requests, and the
+ * browser (aiService), which sends them or answers them with the mock provider.
+ */
+
+import { AssessmentResult, Concept, ProviderUsage, Question, SourceSegment, UnifiedSummary } from "../types";
+import { AIProviderPreference, ProviderInfo } from "./aiProvider";
+import { BudgetStatus } from "./aiCost";
+
+// Fields every operation request may carry
+export interface GatewayRequestOptions {
+    preference?: AIProviderPreference; // Added by the browser from the settings panel
+    regenerate?: boolean; // Skip the gateway's cache and replace the cached result
+}
+
+export interface ExtractRequest extends GatewayRequestOptions {
+    segments: SourceSegment[];
+    knownConcepts?: Concept[];
+}
+
+export interface QuestionRequest extends GatewayRequestOptions {
+    concept: Concept;
+    allConcepts?: Concept[];
+    askedQuestions?: string[];
+}
+
+export interface EvaluateRequest extends GatewayRequestOptions {
+    question: Question;
+    userAnswer: string;
+    concept: Concept;
+    allConcepts?: Concept[];
+    passThreshold?: number; // Rubric score (0-1) the answer needs to pass; the default grading setting when absent
+}
+
+export interface SummaryRequest extends GatewayRequestOptions {
+    concepts: Concept[];
+}
+
+// Fields every operation response carries
+export interface OperationResponse {
+    usage: ProviderUsage[]; // Tokens of every provider tried, including ones that failed
+    cached?: boolean; // Answered from the gateway's cache, without an AI call
+}
+
+export interface ExtractResponse extends OperationResponse {
+    concepts: Concept[];
+}
+
+export interface QuestionResponse extends OperationResponse {
+    question: Question;
+}
+
+export interface EvaluateResponse extends OperationResponse {
+    assessment: AssessmentResult;
+}
+
+export interface SummaryResponse extends OperationResponse {
+    summary: UnifiedSummary;
+}
+
+export interface ProvidersResponse {
+    providers: ProviderInfo[];
+    defaultProvider: string;
+}
+
+/**
+ * Request and response of each route; a route without a request body is a GET
+ */
+export interface GatewayRoutes {
+    '/providers': { request: undefined; response: ProvidersResponse };
+    '/budget': { request: undefined; response: BudgetStatus };
+    '/extract-concepts': { request: ExtractRequest; response: ExtractResponse };
+    '/question': { request: QuestionRequest; response: QuestionResponse };
+    '/evaluate': { request: EvaluateRequest; response: EvaluateResponse };
+    '/summary': { request: SummaryRequest; response: SummaryResponse };
+}
+
+export type GatewayRoute = keyof GatewayRoutes;
+
+// Routes that run an AI operation and report its usage
+export type OperationRoute = Exclude<GatewayRoute, '/providers' | '/budget'>;
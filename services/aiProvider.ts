@@ -0,0 +1,62 @@
+/**
+ * AI Provider Contract
+ *
+ * The interface every AI backend implements, shared by the server-side registry
+ * and the browser settings panel (which only sees `ProviderInfo`).
+ */
+
+import { Concept, Question, AssessmentResult, SourceSegment, GeneratedBy, ProviderUsage, TokenUsage } from "../types";
+
+export type AIOperation = 'extract' | 'question' | 'evaluate' | 'summary';
+
+export interface AICallOptions {
+    model?: string; // Overrides the provider's default model
+    signal?: AbortSignal; // Cancels the request, e.g. when the user stops a stream
+    onUsage?: (usage: TokenUsage) => void; // Called after every model request the operation makes
+}
+
+export interface AIProvider {
+    id: string; // Stable key used in settings and `generatedBy`, e.g. 'openai'
+    label: string;
+    models: string[]; // Models offered in the settings panel
+    defaultModel: string;
+    modelForOperation?: (operation: AIOperation) => string; // Per-operation defaults, when they differ
+    isConfigured: () => boolean;
+
+    // Implementations throw on any failure so the next provider in the chain can take over
+    extractConceptsFromContent: (segments: SourceSegment[], knownConcepts: Concept[], options?: AICallOptions) => Promise<Concept[]>;
+    // `askedQuestions` are shown to the model so it does not repeat them
+    generateQuestion: (concept: Concept, allConcepts: Concept[], askedQuestions: string[], options?: AICallOptions) => Promise<Question>;
+    // `allConcepts` lets an incorrect answer's misconception name the concept involved;
+    // with a rubric, `isCorrect` is whether the score reaches `passThreshold` (0-1)
+    evaluateAnswer: (question: Question, userAnswer: string, concept: Concept, allConcepts: Concept[], passThreshold: number, options?: AICallOptions) => Promise<AssessmentResult>;
+    generateUnifiedSummary: (concepts: Concept[], options?: AICallOptions) => Promise<string>;
+    // Yields the summary Markdown piece by piece as the model writes it
+    streamUnifiedSummary: (concepts: Concept[], options?: AICallOptions) => AsyncIterable<string>;
+}
+
+// One line of the gateway's NDJSON summary stream
+export interface SummaryStreamEvent {
+    text?: string; // Next piece of Markdown
+    done?: boolean; // Final event of a complete stream
+    generatedBy?: GeneratedBy; // Sent with the final event
+    usage?: ProviderUsage[]; // Sent with the final or error event
+    cached?: boolean; // The summary came from the gateway's cache
+    error?: string; // The stream failed after it had started
+    code?: string;
+}
+
+// What the browser is told about each registered provider
+export interface ProviderInfo {
+    id: string;
+    label: string;
+    models: string[];
+    defaultModel: string;
+    configured: boolean;
+}
+
+// The user's runtime choice; empty means "use the server default"
+export interface AIProviderPreference {
+    provider?: string;
+    model?: string;
+}
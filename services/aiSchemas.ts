@@ -0,0 +1,334 @@
+/**
+ * AI Response Schemas
+ *
+ * Runtime validation of model output against the shapes in types.ts, plus a
+ * single repair round-trip that feeds the validation errors back to the model.
+ * Providers call `requestValidated` instead of trusting `JSON.parse`.
+ */
+
+import { CriterionScore, Misconception, MisconceptionType, QuestionType, RubricCriterion } from "../types";
+import { AIOperation } from "./aiProvider";
+import { parseJsonResponse } from "./jsonResponse";
+import { formatPercent, isCriterionMet, isPassingScore, scoreRubric } from "./grading";
+
+// Valid when `errors` is empty; `value` is only meaningful then
+export interface Validation<T> {
+    value?: T;
+    errors: string[];
+}
+
+// Concept fields as the model returns them, before sources are resolved and state is added
+export interface RawConcept {
+    id: string;
+    title: string;
+    description: string;
+    dependencies: string[];
+    sources: { segmentId: string; excerpt: string }[];
+}
+
+export interface RawQuestion {
+    text: string;
+    type: QuestionType;
+    options?: string[];
+    correctAnswerContext: string;
+    rubric: RubricCriterion[];
+}
+
+export interface RawAssessment {
+    isCorrect: boolean;
+    explanation: string;
+    misconception?: Misconception;
+    score?: number;
+    criteria?: CriterionScore[];
+    confidence: number;
+}
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+const MIN_RUBRIC_CRITERIA = 1;
+const MAX_RUBRIC_CRITERIA = 6;
+
+/**
+ * Raised when a model keeps returning output that does not match the schema,
+ * even after being shown its validation errors once
+ */
+export class AIValidationError extends Error {
+    constructor(public operation: AIOperation, public errors: string[]) {
+        super(`Invalid ${operation} response: ${errors.slice(0, 5).join('; ')}`);
+        this.name = 'AIValidationError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a required non-empty string, recording an error under `path` when it is missing
+ */
+const readString = (record: Record<string, unknown>, key: string, path: string, errors: string[]): string => {
+    const value = record[key];
+    if (typeof value !== 'string' || !value.trim()) {
+        errors.push(`${path}.${key}: expected a non-empty string`);
+        return '';
+    }
+    return value.trim();
+};
+
+const readStringArray = (value: unknown, path: string, errors: string[]): string[] => {
+    if (!Array.isArray(value)) {
+        errors.push(`${path}: expected an array of strings`);
+        return [];
+    }
+    value.forEach((item, i) => {
+        if (typeof item !== 'string' || !item.trim()) errors.push(`${path}[${i}]: expected a non-empty string`);
+    });
+    return value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map(item => item.trim());
+};
+
+// A number from 0 to 1, such as a score or a confidence
+const readFraction = (record: Record<string, unknown>, key: string, path: string, errors: string[]): number => {
+    const value = record[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+        errors.push(`${path}.${key}: expected a number from 0 to 1`);
+        return 0;
+    }
+    return value;
+};
+
+/**
+ * Rubric criteria as the model writes them; IDs are assigned here so the grader can refer to them
+ */
+const validateRubric = (value: unknown, errors: string[]): RubricCriterion[] => {
+    if (!Array.isArray(value) || value.length < MIN_RUBRIC_CRITERIA || value.length > MAX_RUBRIC_CRITERIA) {
+        errors.push(`question.rubric: expected ${MIN_RUBRIC_CRITERIA} to ${MAX_RUBRIC_CRITERIA} criteria`);
+        return [];
+    }
+
+    return value.map((item, i) => {
+        const path = `question.rubric[${i}]`;
+        if (!isRecord(item)) {
+            errors.push(`${path}: expected an object`);
+            return { id: `k${i + 1}`, description: '', weight: 0 };
+        }
+        const weight = item.weight;
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+            errors.push(`${path}.weight: expected a positive number`);
+        }
+        return { id: `k${i + 1}`, description: readString(item, 'description', path, errors), weight: weight as number };
+    });
+};
+
+const validateConcept = (value: unknown, path: string, errors: string[]): RawConcept => {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return { id: '', title: '', description: '', dependencies: [], sources: [] };
+    }
+
+    const sources: RawConcept['sources'] = [];
+    if (value.sources !== undefined && value.sources !== null) {
+        if (!Array.isArray(value.sources)) {
+            errors.push(`${path}.sources: expected an array`);
+        } else {
+            value.sources.forEach((source, i) => {
+                const sourcePath = `${path}.sources[${i}]`;
+                if (!isRecord(source)) {
+                    errors.push(`${sourcePath}: expected an object`);
+                    return;
+                }
+                sources.push({
+                    segmentId: readString(source, 'segmentId', sourcePath, errors),
+                    excerpt: readString(source, 'excerpt', sourcePath, errors),
+                });
+            });
+        }
+    }
+
+    return {
+        id: readString(value, 'id', path, errors),
+        title: readString(value, 'title', path, errors),
+        description: readString(value, 'description', path, errors),
+        dependencies: readStringArray(value.dependencies, `${path}.dependencies`, errors),
+        sources,
+    };
+};
+
+/**
+ * A JSON array of concepts
+ */
+export const validateConceptList = (value: unknown): Validation<RawConcept[]> => {
+    const errors: string[] = [];
+    if (!Array.isArray(value)) {
+        return { errors: ['response: expected a JSON array of concepts'] };
+    }
+    const concepts = value.map((item, i) => validateConcept(item, `[${i}]`, errors));
+    return { value: concepts, errors };
+};
+
+/**
+ * `{ "concepts": [...] }`, for APIs whose JSON mode only allows a top-level object
+ */
+export const validateConceptEnvelope = (value: unknown): Validation<RawConcept[]> => {
+    if (!isRecord(value) || !Array.isArray(value.concepts)) {
+        return { errors: ['response: expected an object with a "concepts" array'] };
+    }
+    const result = validateConceptList(value.concepts);
+    return { value: result.value, errors: result.errors.map(error => `concepts${error}`) };
+};
+
+export const validateQuestion = (value: unknown): Validation<RawQuestion> => {
+    if (!isRecord(value)) return { errors: ['response: expected a JSON object'] };
+
+    const errors: string[] = [];
+    const text = readString(value, 'text', 'question', errors);
+    const correctAnswerContext = readString(value, 'correctAnswerContext', 'question', errors);
+    const type = value.type as QuestionType;
+
+    if (!Object.values(QuestionType).includes(type)) {
+        errors.push(`question.type: expected one of ${Object.values(QuestionType).join(', ')}`);
+    }
+
+    let options: string[] | undefined;
+    if (type === QuestionType.MULTIPLE_CHOICE) {
+        options = readStringArray(value.options, 'question.options', errors);
+        if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+            errors.push(`question.options: expected ${MIN_OPTIONS} to ${MAX_OPTIONS} options for MULTIPLE_CHOICE`);
+        } else if (new Set(options).size !== options.length) {
+            errors.push('question.options: options must be distinct');
+        }
+    }
+
+    const rubric = validateRubric(value.rubric, errors);
+
+    return { value: { text, type, options, correctAnswerContext, rubric }, errors };
+};
+
+const validateMisconception = (value: unknown, errors: string[]): Misconception | undefined => {
+    if (!isRecord(value)) {
+        errors.push('assessment.misconception: expected an object for an incorrect answer');
+        return undefined;
+    }
+
+    const type = value.type as MisconceptionType;
+    if (!Object.values(MisconceptionType).includes(type)) {
+        errors.push(`assessment.misconception.type: expected one of ${Object.values(MisconceptionType).join(', ')}`);
+    }
+
+    let conceptTitle: string | undefined;
+    if (value.concept !== undefined && value.concept !== null) {
+        if (typeof value.concept !== 'string') {
+            errors.push('assessment.misconception.concept: expected a string or null');
+        } else if (value.concept.trim()) {
+            conceptTitle = value.concept.trim();
+        }
+    }
+
+    return { type, conceptTitle };
+};
+
+/**
+ * One score per rubric criterion, matched by ID; scores for unknown IDs are ignored
+ */
+const validateCriterionScores = (value: unknown, rubric: RubricCriterion[], errors: string[]): CriterionScore[] => {
+    if (!Array.isArray(value)) {
+        errors.push('assessment.criteria: expected an array with a score for each rubric criterion');
+        return [];
+    }
+
+    return rubric.map(criterion => {
+        const index = value.findIndex(item => isRecord(item) && item.id === criterion.id);
+        if (index === -1) {
+            errors.push(`assessment.criteria: missing a score for criterion "${criterion.id}"`);
+            return { criterionId: criterion.id, score: 0, met: false };
+        }
+        const item = value[index] as Record<string, unknown>;
+        const score = readFraction(item, 'score', `assessment.criteria[${index}]`, errors);
+        const comment = typeof item.comment === 'string' && item.comment.trim() ? item.comment.trim() : undefined;
+        return { criterionId: criterion.id, score, met: isCriterionMet(score), comment };
+    });
+};
+
+/**
+ * Validator for the assessment of an answer to a question with `rubric`; without a
+ * rubric, no criterion scores are expected and the assessment has no overall score.
+ * With one, `isCorrect` is the score against `passThreshold`, and a grader verdict
+ * that disagrees with it is sent back for repair.
+ */
+export const createAssessmentValidator = (rubric: RubricCriterion[] = [], passThreshold: number) => (value: unknown): Validation<RawAssessment> => {
+    if (!isRecord(value)) return { errors: ['response: expected a JSON object'] };
+
+    const errors: string[] = [];
+    if (typeof value.isCorrect !== 'boolean') {
+        errors.push('assessment.isCorrect: expected true or false');
+    }
+    const explanation = readString(value, 'explanation', 'assessment', errors);
+    const confidence = readFraction(value, 'confidence', 'assessment', errors);
+
+    let criteria: CriterionScore[] | undefined;
+    let score: number | undefined;
+    if (rubric.length > 0) {
+        criteria = validateCriterionScores(value.criteria, rubric, errors);
+        score = scoreRubric(rubric, criteria);
+    }
+
+    const isCorrect = score !== undefined ? isPassingScore(score, passThreshold) : value.isCorrect as boolean;
+    // A verdict that disagrees with the scores is repaired, since the feedback was written for it
+    if (score !== undefined && typeof value.isCorrect === 'boolean' && value.isCorrect !== isCorrect) {
+        errors.push(isCorrect
+            ? `assessment.isCorrect: the criterion scores come to ${formatPercent(score)}, reaching the ${formatPercent(passThreshold)} needed to pass; set isCorrect to true and give feedback for a passing answer`
+            : `assessment.isCorrect: the criterion scores come to ${formatPercent(score)}, below the ${formatPercent(passThreshold)} needed to pass; set isCorrect to false, give feedback for an answer that does not pass and classify its misconception`);
+    }
+
+    // Only an incorrect answer has a misconception; one sent alongside a correct answer is dropped
+    let misconception: Misconception | undefined;
+    if (isCorrect === false) {
+        misconception = validateMisconception(value.misconception, errors);
+    }
+
+    return { value: { isCorrect, explanation, misconception, score, criteria, confidence }, errors };
+};
+
+const parseAndValidate = <T>(text: string, validate: (value: unknown) => Validation<T>): Validation<T> => {
+    let parsed: unknown;
+    try {
+        parsed = parseJsonResponse(text);
+    } catch {
+        return { errors: ['response: not valid JSON'] };
+    }
+    return validate(parsed);
+};
+
+export interface RepairRequest {
+    previousResponse: string;
+    instruction: string; // Follow-up message listing the validation errors
+}
+
+const buildRepairInstruction = (errors: string[]) =>
+    `Your previous response did not match the required JSON structure:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected JSON only, with the same content and no other text.`;
+
+/**
+ * Requests JSON from a model and validates it. Invalid output gets exactly one repair
+ * attempt with the errors fed back; a second failure raises AIValidationError.
+ * `request` receives the repair context on the retry and must include it in the conversation.
+ */
+export const requestValidated = async <T>(
+    operation: AIOperation,
+    request: (repair?: RepairRequest) => Promise<string>,
+    validate: (value: unknown) => Validation<T>
+): Promise<T> => {
+    const firstResponse = await request();
+    const first = parseAndValidate(firstResponse, validate);
+    if (first.errors.length === 0) return first.value;
+
+    console.warn(`Invalid ${operation} response, asking the model to repair it:`, first.errors);
+
+    const repaired = parseAndValidate(
+        await request({ previousResponse: firstResponse, instruction: buildRepairInstruction(first.errors) }),
+        validate
+    );
+    if (repaired.errors.length === 0) return repaired.value;
+
+    throw new AIValidationError(operation, repaired.errors);
+};
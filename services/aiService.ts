@@ -1,88 +1,495 @@
 /**
  * AI Service Abstraction Layer
  * 
- * This module provides a unified interface for AI operations,
- * automatically selecting between OpenAI and Gemini based on
- * available API keys and configuration.
- */
-
-import { Concept, Question, AssessmentResult } from "../types";
-
-// Determine which provider to use
-const providerEnv = import.meta.env.VITE_AI_PROVIDER;
-const openAIKey = import.meta.env.VITE_OPENAI_API_KEY;
-const geminiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-const hasOpenAI = !!openAIKey && openAIKey.length > 5;
-const hasGemini = !!geminiKey && geminiKey.length > 5;
-
-// Debug logging - mask keys for security
-console.log('🤖 AI Config Check:', {
-    providerEnv,
-    hasOpenAI: hasOpenAI ? `Yes (${openAIKey.substring(0, 4)}...)` : 'No',
-    hasGemini: hasGemini ? `Yes (${geminiKey.substring(0, 4)}...)` : 'No',
-    mode: import.meta.env.MODE,
-    prod: import.meta.env.PROD
-});
-
-// Select provider
-let selectedProvider: 'openai' | 'gemini';
-
-if (providerEnv === 'openai' && hasOpenAI) {
-    selectedProvider = 'openai';
-} else if (providerEnv === 'gemini' && hasGemini) {
-    selectedProvider = 'gemini';
-} else if (hasOpenAI) {
-    // Prefer OpenAI if available and no specific provider requested (or 'auto')
-    selectedProvider = 'openai';
-} else {
-    // Default to gemini (fallback)
-    selectedProvider = 'gemini';
+ * This module provides a unified interface for AI operations.
+ * Requests go to the AI gateway on the Node server, which holds the
+ * provider API keys and falls back across providers. The user's
+ * provider and model choice is stored locally and sent with each request.
+ * With VITE_AI_MOCK=true the deterministic mock provider runs in the browser
+ * instead, so the whole app works without an AI server or network.
+ * Results are cached in IndexedDB by content hash (see aiCache), and questions
+ * accumulate into a bank per prompt that is drawn from before generating new ones.
+ */
+
+import { Concept, Question, AssessmentResult, SourceSegment, UnifiedSummary, GeneratedBy, ProviderUsage } from "../types";
+import { AICallOptions, AIOperation, AIProvider, AIProviderPreference, SummaryStreamEvent } from "./aiProvider";
+import { GatewayRoute, GatewayRoutes, OperationRoute, ProvidersResponse } from "./aiGatewayContract";
+import { chunkSegments, mergeConceptChunks } from "./conceptChunking";
+import { recordUsage } from "./usageService";
+import { BudgetStatus, getBudgetStatus } from "./aiCost";
+import { readCache, writeCache } from "./aiCache";
+import { computeCacheKey, extractCacheInput, questionCacheInput, summaryCacheInput } from "./aiCacheKey";
+import { getPromptVersion } from "./promptTemplates";
+import { isNearDuplicateQuestion } from "./questionSimilarity";
+import { DEFAULT_GRADING_SETTINGS } from "./grading";
+
+const AI_GATEWAY_URL = `${(import.meta.env.VITE_PROXY_URL || 'http://localhost:3001').replace(/\/$/, '')}/ai`;
+const AI_SETTINGS_STORAGE_KEY = 'learnforge.aiSettings';
+const USE_BROWSER_MOCK = import.meta.env.VITE_AI_MOCK === 'true';
+// Questions kept per prompt; older ones are dropped first
+const MAX_QUESTION_BANK_SIZE = 20;
+
+// Codes reported by the AI gateway, plus client-side failures
+export type AIErrorCode =
+    | 'INVALID_RESPONSE'
+    | 'PROVIDER_ERROR'
+    | 'PROVIDER_NOT_CONFIGURED'
+    | 'UNAUTHORIZED'
+    | 'AUTH_NOT_CONFIGURED'
+    | 'INVALID_REQUEST'
+    | 'GATEWAY_UNREACHABLE'
+    | 'CANCELLED'
+    | 'BUDGET_EXCEEDED';
+
+const AI_ERROR_MESSAGES: Record<AIErrorCode, string> = {
+    INVALID_RESPONSE: 'The AI kept answering in an unexpected format. Please try again, or pick another provider in AI Settings.',
+    PROVIDER_ERROR: 'The AI provider could not complete the request. Please try again.',
+    PROVIDER_NOT_CONFIGURED: 'No AI provider is configured on the server.',
+    UNAUTHORIZED: 'Your session has expired. Please sign in again.',
+    AUTH_NOT_CONFIGURED: 'The AI server is missing its authentication settings.',
+    INVALID_REQUEST: 'The AI request was invalid.',
+    GATEWAY_UNREACHABLE: 'Could not reach the AI server. Make sure it is running (npm run proxy).',
+    CANCELLED: 'The request was cancelled.',
+    BUDGET_EXCEEDED: 'You have reached your monthly AI budget. AI features resume next month.',
+};
+
+/**
+ * Raised when an AI operation fails; `message` is safe to show to the user
+ */
+export class AIServiceError extends Error {
+    // `usage` holds the tokens a failed request still consumed, as reported by the gateway
+    constructor(public code: AIErrorCode, message: string = AI_ERROR_MESSAGES[code], public usage: ProviderUsage[] = []) {
+        super(message);
+        this.name = 'AIServiceError';
+    }
 }
 
-console.log(`🤖 AI Provider: ${selectedProvider.toUpperCase()}`);
+/**
+ * User-facing message for any error thrown by this module
+ */
+export const getAIErrorMessage = (error: unknown): string =>
+    error instanceof AIServiceError ? error.message : AI_ERROR_MESSAGES.PROVIDER_ERROR;
+
+// Refused by the gateway before any AI call was made
+const isBudgetExceeded = (error: unknown) => error instanceof AIServiceError && error.code === 'BUDGET_EXCEEDED';
+
+type AuthTokenProvider = () => Promise<string | null>;
+
+let getAuthToken: AuthTokenProvider = async () => null;
+
+/**
+ * Registers how to obtain the signed-in user's session token (Clerk's `getToken`),
+ * which the gateway verifies on every request.
+ */
+export const setAuthTokenProvider = (provider: AuthTokenProvider) => {
+    getAuthToken = provider;
+};
+
+/**
+ * The provider and model picked in the settings panel (empty when using the server default)
+ */
+export const getAISettings = (): AIProviderPreference => {
+    try {
+        return JSON.parse(localStorage.getItem(AI_SETTINGS_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const saveAISettings = (preference: AIProviderPreference) => {
+    localStorage.setItem(AI_SETTINGS_STORAGE_KEY, JSON.stringify(preference));
+};
+
+let browserMock: Promise<AIProvider> | null = null;
+
+// Loaded on demand so the mock is not part of the normal bundle
+const getBrowserMock = () => browserMock ??= import('./mockAIService').then(({ createMockProvider, parseMockOperations, DEFAULT_MOCK_SETTINGS }) =>
+    createMockProvider({
+        latencyMs: Number(import.meta.env.VITE_MOCK_AI_LATENCY_MS ?? DEFAULT_MOCK_SETTINGS.latencyMs),
+        failureRate: Number(import.meta.env.VITE_MOCK_AI_FAILURE_RATE ?? DEFAULT_MOCK_SETTINGS.failureRate),
+        failOperations: parseMockOperations(import.meta.env.VITE_MOCK_AI_FAIL_OPERATIONS),
+    })
+);
+
+type RouteRequest<P extends GatewayRoute> = GatewayRoutes[P]['request'];
+type RouteResponse<P extends GatewayRoute> = GatewayRoutes[P]['response'];
 
-// Dynamic imports based on selected provider
-const getService = async () => {
-    if (selectedProvider === 'openai') {
-        return await import('./openaiService');
-    } else {
-        return await import('./geminiService');
+// One handler per gateway route, answering it in the same shape the gateway returns
+type MockRouteHandlers = { [P in GatewayRoute]: (body: RouteRequest<P>) => Promise<RouteResponse<P>> };
+
+const createMockRouteHandlers = (mock: AIProvider): MockRouteHandlers => {
+    const producer = { provider: mock.id, model: mock.defaultModel };
+    // Stamped like the gateway does, so mock results look like real ones
+    const generatedBy = (operation: AIOperation): GeneratedBy => ({ ...producer, promptVersion: getPromptVersion(operation) });
+    // Collects the tokens of one call, like the gateway's usage field
+    const track = () => {
+        const usage: ProviderUsage[] = [];
+        const options: AICallOptions = { onUsage: tokens => usage.push({ ...producer, ...tokens }) };
+        return { usage, options };
+    };
+
+    return {
+        '/providers': async () => ({
+            providers: [{ id: mock.id, label: mock.label, models: mock.models, defaultModel: mock.defaultModel, configured: true }],
+            defaultProvider: mock.id,
+        }),
+        // Mock calls are free, so there is nothing to budget
+        '/budget': async () => getBudgetStatus(null, 0),
+        '/extract-concepts': async ({ segments, knownConcepts = [] }) => {
+            const { usage, options } = track();
+            const concepts = await mock.extractConceptsFromContent(segments, knownConcepts, options);
+            return { concepts: concepts.map(concept => ({ ...concept, generatedBy: generatedBy('extract') })), usage };
+        },
+        '/question': async ({ concept, allConcepts = [], askedQuestions = [] }) => {
+            const { usage, options } = track();
+            const question = await mock.generateQuestion(concept, allConcepts, askedQuestions, options);
+            return { question: { ...question, generatedBy: generatedBy('question') }, usage };
+        },
+        '/evaluate': async ({ question, userAnswer, concept, allConcepts = [], passThreshold = DEFAULT_GRADING_SETTINGS.passThreshold }) => {
+            const { usage, options } = track();
+            const assessment = await mock.evaluateAnswer(question, userAnswer, concept, allConcepts, passThreshold, options);
+            return { assessment: { ...assessment, generatedBy: generatedBy('evaluate') }, usage };
+        },
+        '/summary': async ({ concepts }) => {
+            const { usage, options } = track();
+            const text = await mock.generateUnifiedSummary(concepts, options);
+            return { summary: { text, generatedBy: generatedBy('summary') }, usage };
+        },
+    };
+};
+
+let mockRouteHandlers: MockRouteHandlers | null = null;
+
+/**
+ * Answers a gateway route with the in-browser mock provider, in the same shape the gateway returns
+ */
+const callBrowserMock = async <P extends GatewayRoute>(path: P, body: RouteRequest<P>): Promise<RouteResponse<P>> => {
+    mockRouteHandlers ??= createMockRouteHandlers(await getBrowserMock());
+    const handler: MockRouteHandlers[P] = mockRouteHandlers[path];
+    try {
+        return await handler(body);
+    } catch (error) {
+        console.error('Mock AI error:', error);
+        throw new AIServiceError('PROVIDER_ERROR');
     }
 };
 
 /**
- * Extract concepts from content using the selected AI provider
+ * Sends a request to a gateway route, turning `{ error, code }` responses into AIServiceError.
+ * POST bodies carry the current provider preference.
  */
-export const extractConceptsFromContent = async (content: string): Promise<Concept[]> => {
-    const service = await getService();
-    return service.extractConceptsFromContent(content);
+const openGateway = async (path: string, body?: object, signal?: AbortSignal): Promise<Response> => {
+    const token = await getAuthToken();
+    let response: Response;
+    try {
+        response = await fetch(`${AI_GATEWAY_URL}${path}`, {
+            method: body ? 'POST' : 'GET',
+            headers: {
+                ...(body ? { 'Content-Type': 'application/json' } : {}),
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: body ? JSON.stringify({ ...body, preference: getAISettings() }) : undefined,
+            signal,
+        });
+    } catch (error) {
+        if (signal?.aborted) throw new AIServiceError('CANCELLED');
+        console.error(`AI gateway ${path} unreachable:`, error);
+        throw new AIServiceError('GATEWAY_UNREACHABLE');
+    }
+
+    if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error(`AI gateway ${path} failed:`, data.code || response.status, data.error);
+        const code: AIErrorCode = data.code in AI_ERROR_MESSAGES ? data.code : 'PROVIDER_ERROR';
+        throw new AIServiceError(code, undefined, Array.isArray(data.usage) ? data.usage : []);
+    }
+
+    return response;
+};
+
+const callGateway = async <P extends GatewayRoute>(path: P, body: RouteRequest<P>): Promise<RouteResponse<P>> => {
+    if (USE_BROWSER_MOCK) return callBrowserMock(path, body);
+    return (await openGateway(path, body)).json();
+};
+
+export interface CacheOptions {
+    regenerate?: boolean; // Ignore cached results (in the browser and on the server) and replace them
+}
+
+// Keyed by the preferred provider and model; which fallback answers is not known in advance
+const browserCacheKey = (operation: AIOperation, input: unknown) => {
+    const { provider, model } = getAISettings();
+    return computeCacheKey(operation, provider || 'default', model || 'default', input);
 };
 
 /**
- * Generate a question using the selected AI provider
+ * Calls an AI operation route and records its tokens, latency and estimated cost,
+ * including for calls that fail. Calls the gateway refuses because the monthly budget
+ * is used up made no AI call and are not recorded, and neither are answers from its cache.
  */
-export const generateQuestion = async (concept: Concept, allConcepts: Concept[]): Promise<Question> => {
-    const service = await getService();
-    return service.generateQuestion(concept, allConcepts);
+const callOperation = async <P extends OperationRoute>(
+    operation: AIOperation,
+    path: P,
+    body: RouteRequest<P>,
+    producedBy: (data: RouteResponse<P>) => GeneratedBy | undefined
+): Promise<RouteResponse<P>> => {
+    const startedAt = Date.now();
+
+    let data: RouteResponse<P>;
+    try {
+        data = await callGateway(path, body);
+    } catch (error) {
+        if (!isBudgetExceeded(error)) {
+            const usage = error instanceof AIServiceError ? error.usage : [];
+            recordUsage({ operation, usage, latencyMs: Date.now() - startedAt, failed: true });
+        }
+        throw error;
+    }
+
+    if (!data.cached) {
+        recordUsage({ operation, usage: data.usage || [], generatedBy: producedBy(data), latencyMs: Date.now() - startedAt, failed: false });
+    }
+    return data;
 };
 
 /**
- * Evaluate an answer using the selected AI provider
+ * Providers registered on the server, with whether each has credentials configured
+ */
+export const fetchAIProviders = async (): Promise<ProvidersResponse> => {
+    return callGateway('/providers', undefined);
+};
+
+/**
+ * This month's AI spending against the budget, as kept by the gateway
+ */
+export const fetchBudgetStatus = async (): Promise<BudgetStatus> => {
+    return callGateway('/budget', undefined);
+};
+
+export interface ExtractionProgress {
+    completedChunks: number;
+    failedChunks: number;
+    totalChunks: number;
+}
+
+/**
+ * Extract concepts from segmented source material through the AI gateway.
+ * Long material is split into chunks that are extracted one after another,
+ * each seeing the concepts found so far, and then merged into one graph.
+ */
+export const extractConceptsFromContent = async (
+    segments: SourceSegment[],
+    onProgress?: (progress: ExtractionProgress) => void,
+    options: CacheOptions = {}
+): Promise<Concept[]> => {
+    const chunks = chunkSegments(segments);
+    const results: Concept[][] = [];
+    const progress: ExtractionProgress = { completedChunks: 0, failedChunks: 0, totalChunks: chunks.length };
+    let lastError: unknown = null;
+
+    onProgress?.({ ...progress });
+
+    for (const chunk of chunks) {
+        try {
+            const knownConcepts = mergeConceptChunks(results);
+            const key = await browserCacheKey('extract', extractCacheInput(chunk, knownConcepts));
+            let concepts = options.regenerate ? null : await readCache<Concept[]>(key);
+
+            if (!concepts) {
+                ({ concepts } = await callOperation(
+                    'extract',
+                    '/extract-concepts',
+                    { segments: chunk, knownConcepts, regenerate: options.regenerate },
+                    data => data.concepts[0]?.generatedBy
+                ));
+                await writeCache(key, 'extract', concepts);
+            }
+            results.push(concepts);
+            progress.completedChunks++;
+        } catch (error) {
+            // Without budget left, the remaining chunks would fail the same way
+            if (isBudgetExceeded(error)) throw error;
+            // One failed chunk should not discard the rest of the material
+            console.error('Chunk extraction failed:', error);
+            lastError = error;
+            progress.failedChunks++;
+        }
+        onProgress?.({ ...progress });
+    }
+
+    if (chunks.length > 0 && progress.failedChunks === chunks.length) {
+        throw lastError instanceof AIServiceError ? lastError : new AIServiceError('PROVIDER_ERROR');
+    }
+
+    return mergeConceptChunks(results);
+};
+
+/**
+ * Generate a question through the AI gateway, or take one from the question bank.
+ * A banked question is used when it is not a near-duplicate of any of `askedQuestions`
+ * (question texts); otherwise a new one is generated, avoiding them, and added to the bank.
+ * Throws AIServiceError when no provider returns a valid question.
+ */
+export const generateQuestion = async (
+    concept: Concept,
+    allConcepts: Concept[],
+    askedQuestions: string[] = []
+): Promise<Question> => {
+    const key = await browserCacheKey('question', questionCacheInput(concept, allConcepts));
+    const bank = (await readCache<Question[]>(key)) || [];
+
+    const unasked = bank.find(q => !isNearDuplicateQuestion(q.text, askedQuestions));
+    if (unasked) return { ...unasked, conceptId: concept.id };
+
+    const { question } = await callOperation(
+        'question', '/question', { concept, allConcepts, askedQuestions }, data => data.question.generatedBy
+    );
+    if (!isNearDuplicateQuestion(question.text, bank.map(q => q.text))) {
+        await writeCache(key, 'question', [...bank, question].slice(-MAX_QUESTION_BANK_SIZE));
+    }
+    return question;
+};
+
+/**
+ * Evaluate an answer through the AI gateway. For a question with a rubric, `isCorrect`
+ * is whether the rubric score reaches `passThreshold`. An incorrect answer comes back with
+ * its misconception classified, naming a concept from `allConcepts` where one is involved.
+ * Throws AIServiceError when no provider returns a valid assessment.
  */
 export const evaluateAnswer = async (
     question: Question,
     userAnswer: string,
-    concept: Concept
+    concept: Concept,
+    allConcepts: Concept[],
+    passThreshold: number = DEFAULT_GRADING_SETTINGS.passThreshold
 ): Promise<AssessmentResult> => {
-    const service = await getService();
-    return service.evaluateAnswer(question, userAnswer, concept);
+    const { assessment } = await callOperation(
+        'evaluate', '/evaluate', { question, userAnswer, concept, allConcepts, passThreshold }, data => data.assessment.generatedBy
+    );
+    return assessment;
+};
+
+/**
+ * Generate a unified summary through the AI gateway.
+ * Throws AIServiceError when no provider can write it.
+ */
+export const generateUnifiedSummary = async (concepts: Concept[], options: CacheOptions = {}): Promise<UnifiedSummary> => {
+    const key = await browserCacheKey('summary', summaryCacheInput(concepts));
+    const cached = options.regenerate ? null : await readCache<UnifiedSummary>(key);
+    if (cached) return cached;
+
+    const { summary } = await callOperation(
+        'summary', '/summary', { concepts, regenerate: options.regenerate }, data => data.summary.generatedBy
+    );
+    await writeCache(key, 'summary', summary);
+    return summary;
+};
+
+/**
+ * Reads the summary stream from the gateway, or from the in-browser mock
+ */
+const readSummaryStream = async (
+    concepts: Concept[],
+    onText: (text: string) => void,
+    signal: AbortSignal | undefined,
+    regenerate: boolean
+): Promise<{ summary: UnifiedSummary; usage: ProviderUsage[]; cached: boolean }> => {
+    if (USE_BROWSER_MOCK) {
+        const mock = await getBrowserMock();
+        const producer = { provider: mock.id, model: mock.defaultModel };
+        const usage: ProviderUsage[] = [];
+        let text = '';
+        try {
+            for await (const piece of mock.streamUnifiedSummary(concepts, { signal, onUsage: tokens => usage.push({ ...producer, ...tokens }) })) {
+                text += piece;
+                onText(piece);
+            }
+        } catch (error) {
+            if (signal?.aborted) throw new AIServiceError('CANCELLED');
+            console.error('Mock AI error:', error);
+            throw new AIServiceError('PROVIDER_ERROR');
+        }
+        return { summary: { text, generatedBy: { ...producer, promptVersion: getPromptVersion('summary') } }, usage, cached: false };
+    }
+
+    const response = await openGateway('/summary/stream', { concepts, regenerate }, signal);
+    if (!response.body) throw new AIServiceError('PROVIDER_ERROR');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let text = '';
+    let buffered = '';
+    let result: { summary: UnifiedSummary; usage: ProviderUsage[]; cached: boolean } | null = null;
+
+    try {
+        while (!result) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            buffered += value;
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+
+            for (const line of lines.filter(line => line.trim())) {
+                const event: SummaryStreamEvent = JSON.parse(line);
+                if (event.error) {
+                    console.error('AI gateway summary stream failed:', event.code, event.error);
+                    throw new AIServiceError('PROVIDER_ERROR', undefined, event.usage || []);
+                }
+                if (event.text) {
+                    text += event.text;
+                    onText(event.text);
+                }
+                if (event.done) result = { summary: { text, generatedBy: event.generatedBy }, usage: event.usage || [], cached: !!event.cached };
+            }
+        }
+    } catch (error) {
+        if (signal?.aborted) throw new AIServiceError('CANCELLED');
+        if (error instanceof AIServiceError) throw error;
+        console.error('AI gateway summary stream broke off:', error);
+        throw new AIServiceError('GATEWAY_UNREACHABLE');
+    } finally {
+        reader.releaseLock();
+    }
+
+    // A stream that closes without its final event was cut off
+    if (!result) throw new AIServiceError('PROVIDER_ERROR');
+    return result;
 };
 
 /**
- * Generate a unified summary using the selected AI provider
+ * Stream the unified summary through the AI gateway, calling `onText` with each new piece
+ * of Markdown. Resolves with the complete summary once the stream has finished; aborting
+ * `signal` rejects with an AIServiceError whose code is CANCELLED.
+ * A cached summary is delivered as a single piece.
+ * Cancelled streams are recorded without tokens, since the gateway never reports them.
  */
-export const generateUnifiedSummary = async (concepts: Concept[]): Promise<string> => {
-    const service = await getService();
-    return service.generateUnifiedSummary(concepts);
+export const streamUnifiedSummary = async (
+    concepts: Concept[],
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+    options: CacheOptions = {}
+): Promise<UnifiedSummary> => {
+    const key = await browserCacheKey('summary', summaryCacheInput(concepts));
+    const cached = options.regenerate ? null : await readCache<UnifiedSummary>(key);
+    if (cached) {
+        onText(cached.text);
+        return cached;
+    }
+
+    const startedAt = Date.now();
+
+    try {
+        const { summary, usage, cached: cachedByGateway } = await readSummaryStream(concepts, onText, signal, !!options.regenerate);
+        if (!cachedByGateway) {
+            recordUsage({ operation: 'summary', usage, generatedBy: summary.generatedBy, latencyMs: Date.now() - startedAt, failed: false });
+        }
+        await writeCache(key, 'summary', summary);
+        return summary;
+    } catch (error) {
+        if (!isBudgetExceeded(error)) {
+            const usage = error instanceof AIServiceError ? error.usage : [];
+            recordUsage({ operation: 'summary', usage, latencyMs: Date.now() - startedAt, failed: true });
+        }
+        throw error;
+    }
 };
@@ -0,0 +1,117 @@
+/**
+ * Concept Chunking
+ *
+ * Map-reduce helpers for extracting one concept graph from material that is
+ * too long for a single request: split on source boundaries, extract per chunk,
+ * then merge near-duplicate concepts and reconcile their dependency IDs.
+ */
+
+import { Concept, SourceSegment } from "../types";
+
+// Upper bound on the text sent in one extraction request, in characters (~6k tokens)
+const MAX_CHUNK_CHARS = 24000;
+
+// Title words ignored when comparing concepts
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'and', 'in', 'on', 'to', 'for', 'with', 'vs', 'versus']);
+
+// Share of title words two concepts must have in common to count as the same concept
+const SAME_TITLE_THRESHOLD = 0.8;
+
+/**
+ * Group segments into chunks that fit one request, never splitting a segment
+ */
+export const chunkSegments = (segments: SourceSegment[], maxChars: number = MAX_CHUNK_CHARS): SourceSegment[][] => {
+    const chunks: SourceSegment[][] = [];
+    let current: SourceSegment[] = [];
+    let currentLength = 0;
+
+    for (const segment of segments) {
+        // Prefer closing a chunk where one source ends and the next begins
+        const sourceChanged = current.length > 0 && current[current.length - 1].sourceName !== segment.sourceName;
+        const wouldOverflow = currentLength + segment.text.length > maxChars;
+
+        if (current.length > 0 && (wouldOverflow || (sourceChanged && currentLength > maxChars / 2))) {
+            chunks.push(current);
+            current = [];
+            currentLength = 0;
+        }
+
+        current.push(segment);
+        currentLength += segment.text.length;
+    }
+
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+};
+
+/**
+ * List of concepts found in earlier chunks, appended to the extraction input of later ones
+ */
+export const formatKnownConceptsForPrompt = (knownConcepts: Concept[]): string => {
+    if (knownConcepts.length === 0) return '';
+
+    return `\n\nConcepts already extracted from earlier parts of this material.
+Reuse these exact IDs when the same concept appears again, and use them as dependencies where appropriate:
+${knownConcepts.map(c => `- ${c.id}: ${c.title}`).join('\n')}`;
+};
+
+const titleWords = (title: string): Set<string> => new Set(
+    title
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word && !STOP_WORDS.has(word))
+        .map(word => word.replace(/ies$/, 'y').replace(/(?<!s)s$/, ''))
+);
+
+const isSameConcept = (a: Concept, b: Concept): boolean => {
+    if (a.id === b.id) return true;
+
+    const wordsA = titleWords(a.title);
+    const wordsB = titleWords(b.title);
+    if (wordsA.size === 0 || wordsB.size === 0) return false;
+
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    return shared / new Set([...wordsA, ...wordsB]).size >= SAME_TITLE_THRESHOLD;
+};
+
+/**
+ * Merge per-chunk concept lists into one graph.
+ * Near-duplicates are folded into the first occurrence (keeping the fuller description
+ * and every source), and dependency IDs are rewritten to the merged concepts' IDs.
+ * Dependencies that match nothing are left as they are for the graph validator to report.
+ */
+export const mergeConceptChunks = (chunks: Concept[][]): Concept[] => {
+    const merged: Concept[] = [];
+
+    for (const chunk of chunks) {
+        const idMap = new Map<string, string>();
+
+        for (const concept of chunk) {
+            const match = merged.find(existing => isSameConcept(existing, concept));
+
+            if (match) {
+                idMap.set(concept.id, match.id);
+                if (concept.description.length > match.description.length) {
+                    match.description = concept.description;
+                }
+                match.sources = [...(match.sources || []), ...(concept.sources || [])];
+            } else {
+                idMap.set(concept.id, concept.id);
+                merged.push({ ...concept, dependencies: [] });
+            }
+        }
+
+        // IDs are only known once the whole chunk is placed, so dependencies are remapped afterwards
+        for (const concept of chunk) {
+            const target = merged.find(existing => existing.id === idMap.get(concept.id))!;
+            const dependencies = concept.dependencies
+                .map(depId => idMap.get(depId) ?? depId)
+                .filter(depId => depId !== target.id);
+
+            target.dependencies = [...new Set([...target.dependencies, ...dependencies])];
+        }
+    }
+
+    return merged;
+};
@@ -0,0 +1,122 @@
+/**
+ * Concept Graph Integrity
+ *
+ * Extraction output is not guaranteed to form a usable graph: IDs may be
+ * duplicated or inconsistently formatted, dependencies may name concepts that
+ * do not exist, and cycles make sequential unlocking impossible. The validator
+ * repairs what it can and reports every change it made.
+ */
+
+import { Concept } from "../types";
+
+export type GraphChangeKind = 'renamed' | 'duplicate' | 'remapped' | 'dropped' | 'cycle';
+
+export interface GraphChange {
+    kind: GraphChangeKind;
+    conceptId: string; // ID after normalisation
+    message: string;
+}
+
+export interface ConceptGraphReport {
+    concepts: Concept[];
+    changes: GraphChange[];
+    orphanIds: string[]; // Concepts with no prerequisites and no dependents; kept, only flagged
+}
+
+// Lowercase kebab-case; underscores are kept since models use them for IDs often enough
+const normalizeId = (value: string): string =>
+    value.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '-').replace(/^-+|-+$/g, '');
+
+const uniqueId = (base: string, taken: Set<string>): string => {
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    return id;
+};
+
+/**
+ * Normalises IDs, remaps or drops dangling dependencies, breaks cycles and flags orphans.
+ * The input is not modified; the result is safe to hand to a learning session.
+ */
+export const validateConceptGraph = (input: Concept[]): ConceptGraphReport => {
+    const changes: GraphChange[] = [];
+    const taken = new Set<string>();
+    // Dependencies are resolved by original ID first, then by normalised ID or title
+    const byOriginalId = new Map<string, string>();
+    const byAlias = new Map<string, string>();
+
+    const concepts: Concept[] = input.map((concept, index) => {
+        const base = normalizeId(concept.id || '') || normalizeId(concept.title || '') || `concept-${index + 1}`;
+        const id = uniqueId(base, taken);
+        taken.add(id);
+
+        if (id !== base) {
+            changes.push({ kind: 'duplicate', conceptId: id, message: `"${concept.title}" reused the ID "${concept.id}" and was renamed to "${id}".` });
+        } else if (id !== concept.id) {
+            changes.push({ kind: 'renamed', conceptId: id, message: `ID "${concept.id}" of "${concept.title}" was normalised to "${id}".` });
+        }
+
+        // The first concept to claim an ID keeps the references to it
+        if (!byOriginalId.has(concept.id)) byOriginalId.set(concept.id, id);
+        if (!byAlias.has(base)) byAlias.set(base, id);
+        const titleAlias = normalizeId(concept.title || '');
+        if (titleAlias && !byAlias.has(titleAlias)) byAlias.set(titleAlias, id);
+
+        return { ...concept, id, dependencies: [...(concept.dependencies || [])] };
+    });
+
+    const titles = new Map(concepts.map(c => [c.id, c.title]));
+
+    for (const concept of concepts) {
+        const resolved: string[] = [];
+        for (const depId of concept.dependencies) {
+            const exact = byOriginalId.get(depId);
+            const target = exact ?? byAlias.get(normalizeId(depId));
+
+            if (!target) {
+                changes.push({ kind: 'dropped', conceptId: concept.id, message: `"${concept.title}" depended on unknown concept "${depId}"; the dependency was removed.` });
+                continue;
+            }
+            if (!exact && target !== depId) {
+                changes.push({ kind: 'remapped', conceptId: concept.id, message: `Dependency "${depId}" of "${concept.title}" was matched to "${titles.get(target)}".` });
+            }
+            // Self-references and repeats carry no information
+            if (target !== concept.id && !resolved.includes(target)) resolved.push(target);
+        }
+        concept.dependencies = resolved;
+    }
+
+    // Depth-first walk along dependencies; an edge back into the current path closes a cycle
+    const byId = new Map(concepts.map(c => [c.id, c]));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (concept: Concept) => {
+        state.set(concept.id, 'visiting');
+        path.push(concept.id);
+
+        for (const depId of [...concept.dependencies]) {
+            const depState = state.get(depId);
+            if (depState === 'visiting') {
+                const cycle = [...path.slice(path.indexOf(depId)), depId].map(id => titles.get(id)).join(' → ');
+                concept.dependencies = concept.dependencies.filter(id => id !== depId);
+                changes.push({ kind: 'cycle', conceptId: concept.id, message: `Removed the dependency of "${concept.title}" on "${titles.get(depId)}" to break the cycle ${cycle}.` });
+            } else if (!depState) {
+                visit(byId.get(depId)!);
+            }
+        }
+
+        path.pop();
+        state.set(concept.id, 'done');
+    };
+
+    for (const concept of concepts) {
+        if (!state.has(concept.id)) visit(concept);
+    }
+
+    const dependedOn = new Set(concepts.flatMap(c => c.dependencies));
+    const orphanIds = concepts.length > 1
+        ? concepts.filter(c => c.dependencies.length === 0 && !dependedOn.has(c.id)).map(c => c.id)
+        : [];
+
+    return { concepts, changes, orphanIds };
+};
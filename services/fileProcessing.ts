@@ -2,90 +2,476 @@
 // Browser-based apps cannot directly fetch YouTube transcripts due to CORS
 // For production, you'd need a backend service to handle this
 import { YoutubeTranscript } from 'youtube-transcript';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { PDFParse, PasswordException, InvalidPDFException, FormatError } from 'pdf-parse';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { SourceLocation, TimelineCue } from '../types';
+import { recognizeImages } from './ocrService';
+import { formatTimestamp } from './sourceSegments';
+import { cleanInlineText, htmlToLines, splitLinesIntoSections } from './htmlText';
+
+// Below this many characters, a PDF page is treated as having no text layer and is OCR'd
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+// Server that fetches transcripts and web pages on the browser's behalf (see proxy-server.js)
+const PROXY_BASE_URL = (import.meta.env.VITE_PROXY_URL || 'http://localhost:3001').replace(/\/$/, '');
+
+// Target length of a video section; sections close at the next sentence end after this
+const VIDEO_SECTION_SECONDS = 300;
 
 export enum FileType {
     PDF = 'PDF',
     PPTX = 'PPTX',
+    DOCX = 'DOCX',
+    EPUB = 'EPUB',
+    HTML = 'HTML',
+    ARTICLE = 'ARTICLE',
+    IMAGE = 'IMAGE',
     YOUTUBE = 'YOUTUBE',
     TEXT = 'TEXT',
 }
 
+export type FileProcessingErrorCode =
+    | 'PDF_PASSWORD_PROTECTED'
+    | 'PDF_IMAGE_ONLY'
+    | 'OCR_FAILED'
+    | 'PDF_CORRUPT'
+    | 'PPTX_CORRUPT'
+    | 'PPT_LEGACY_FORMAT'
+    | 'DOCX_CORRUPT'
+    | 'EPUB_CORRUPT'
+    | 'NO_TEXT_CONTENT'
+    | TranscriptErrorCode;
+
+// Codes reported by the proxy's /transcript and /playlist routes, plus client-side failures
+export type TranscriptErrorCode =
+    | 'CAPTIONS_DISABLED'
+    | 'NOT_FOUND'
+    | 'RATE_LIMITED'
+    | 'TOO_SHORT'
+    | 'LANGUAGE_NOT_AVAILABLE'
+    | 'PROXY_UNREACHABLE'
+    | 'TRANSCRIPT_FAILED';
+
+/**
+ * Raised when a file cannot be turned into usable text.
+ * The code lets the UI distinguish failure causes without parsing messages.
+ */
+export class FileProcessingError extends Error {
+    constructor(public code: FileProcessingErrorCode, message: string) {
+        super(message);
+        this.name = 'FileProcessingError';
+    }
+}
+
+/**
+ * A contiguous piece of extracted text with its location in the source
+ */
+export interface ContentSegment extends SourceLocation {
+    text: string;
+    timeline?: TimelineCue[];
+}
+
+// Reports progress of long-running extraction steps such as OCR
+export type ProcessingProgressCallback = (status: string) => void;
+
 export interface ProcessedContent {
     text: string;
     type: FileType;
+    segments?: ContentSegment[];
     metadata?: {
         title?: string;
+        url?: string;
+        author?: string;
+        siteName?: string;
         pageCount?: number;
+        slideCount?: number;
+        chapterCount?: number;
+        ocrPages?: { page: number; confidence: number }[]; // Pages whose text came from OCR
         duration?: string;
+        playlistTitle?: string; // Set on each video of a playlist
     };
 }
 
 /**
- * Extract text from PDF file (browser-compatible version)
- * Note: For complex PDFs, users should copy/paste text manually for best results
+ * Run OCR over images, turning worker failures into a FileProcessingError
  */
-export const extractTextFromPDF = async (file: File): Promise<ProcessedContent> => {
+const runOcr = async (
+    fileName: string,
+    images: (string | Blob)[],
+    onProgress?: ProcessingProgressCallback
+) => {
     try {
-        // Basic text extraction - works for simple text-based PDFs
-        const text = await file.text();
+        return await recognizeImages(images, (completed, total) => {
+            if (total > 1) onProgress?.(`Recognizing text (page ${Math.min(completed + 1, total)} of ${total})...`);
+            else onProgress?.('Recognizing text...');
+        });
+    } catch (error) {
+        console.error('OCR error:', error);
+        throw new FileProcessingError('OCR_FAILED', `Text recognition failed for "${fileName}".`);
+    }
+};
 
-        // Try to extract readable text
-        const cleanedText = text
-            .replace(/[\x00-\x1F\x7F-\x9F]/g, '') // Remove control characters
-            .replace(/\s+/g, ' ') // Normalize whitespace
-            .trim();
+/**
+ * Extract text from PDF file, page by page
+ * Each page becomes its own segment so later steps can trace content back to a page.
+ * Pages without a text layer (scans) are rendered and run through local OCR.
+ */
+export const extractTextFromPDF = async (
+    file: File,
+    onProgress?: ProcessingProgressCallback
+): Promise<ProcessedContent> => {
+    PDFParse.setWorker(pdfWorkerUrl);
+    const parser = new PDFParse({ data: new Uint8Array(await file.arrayBuffer()) });
 
-        // Check if we got meaningful text
-        const hasContent = cleanedText.length > 100;
+    try {
+        const result = await parser.getText();
+
+        const pages: ContentSegment[] = result.pages.map(page => ({
+            text: page.text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim(),
+            page: page.num,
+        }));
+
+        // Scanned pages have no text layer, so render them and recognize the text locally
+        const scannedPages = pages.filter(page => page.text.length < MIN_PAGE_TEXT_LENGTH).map(page => page.page!);
+        const ocrPages: { page: number; confidence: number }[] = [];
+
+        if (scannedPages.length > 0) {
+            onProgress?.('Rendering scanned pages...');
+            const screenshots = await parser.getScreenshot({ partial: scannedPages, scale: 2, imageDataUrl: true, imageBuffer: false });
+            const recognized = await runOcr(file.name, screenshots.pages.map(shot => shot.dataUrl), onProgress);
+
+            screenshots.pages.forEach((shot, idx) => {
+                const page = pages.find(p => p.page === shot.pageNumber);
+                if (!page || !recognized[idx].text) return;
+                page.text = recognized[idx].text;
+                ocrPages.push({ page: shot.pageNumber, confidence: recognized[idx].confidence });
+            });
+        }
+
+        const segments = pages.filter(segment => segment.text.length > 0);
+        const textLength = segments.reduce((sum, segment) => sum + segment.text.length, 0);
+        if (textLength < MIN_PAGE_TEXT_LENGTH) {
+            throw new FileProcessingError(
+                'PDF_IMAGE_ONLY',
+                `No text could be read from "${file.name}", not even with text recognition. Please paste the text manually.`
+            );
+        }
 
         return {
-            text: hasContent
-                ? cleanedText
-                : `📄 PDF File Added: ${file.name}\n\nThe PDF was uploaded but automatic text extraction may not work for all PDFs.\n\nTo ensure accurate content:\n• Open the PDF and copy the text\n• Paste it in the text area above\n• Or proceed with other content you've added\n\nThe AI will work with whatever content you provide!`,
+            text: segments.map(segment => `[Page ${segment.page}]\n${segment.text}`).join('\n\n'),
             type: FileType.PDF,
+            segments,
             metadata: {
                 title: file.name,
+                pageCount: result.total,
+                ocrPages: ocrPages.length > 0 ? ocrPages : undefined,
             },
         };
     } catch (error) {
+        if (error instanceof FileProcessingError) throw error;
         console.error('Error extracting PDF text:', error);
-        return {
-            text: `📄 PDF File Added: ${file.name}\n\nPlease copy and paste the PDF content into the text area above for best results.`,
-            type: FileType.PDF,
-            metadata: {
-                title: file.name,
-            },
-        };
+
+        if (error instanceof PasswordException) {
+            throw new FileProcessingError(
+                'PDF_PASSWORD_PROTECTED',
+                `"${file.name}" is password-protected. Please remove the password and upload it again.`
+            );
+        }
+        if (error instanceof InvalidPDFException || error instanceof FormatError) {
+            throw new FileProcessingError(
+                'PDF_CORRUPT',
+                `"${file.name}" could not be read. The file appears to be damaged or is not a valid PDF.`
+            );
+        }
+        throw new FileProcessingError('PDF_CORRUPT', `Failed to extract text from "${file.name}".`);
+    } finally {
+        await parser.destroy();
+    }
+};
+
+/**
+ * Extract text from a photo or scan (PNG, JPG, WebP) with local OCR
+ */
+export const extractTextFromImage = async (
+    file: File,
+    onProgress?: ProcessingProgressCallback
+): Promise<ProcessedContent> => {
+    const [result] = await runOcr(file.name, [file], onProgress);
+
+    if (!result.text) {
+        throw new FileProcessingError('NO_TEXT_CONTENT', `No text could be recognized in "${file.name}".`);
+    }
+
+    return {
+        text: result.text,
+        type: FileType.IMAGE,
+        segments: [{ text: result.text, page: 1 }],
+        metadata: {
+            title: file.name,
+            pageCount: 1,
+            ocrPages: [{ page: 1, confidence: result.confidence }],
+        },
+    };
+};
+
+/**
+ * Collect the paragraphs of a text body, indenting bullets by their outline level
+ */
+const readPptxParagraphs = (container: Element): { text: string; level: number }[] => {
+    return Array.from(container.getElementsByTagName('a:p'))
+        .map(paragraph => ({
+            text: Array.from(paragraph.getElementsByTagName('a:t'))
+                .map(run => run.textContent || '')
+                .join('')
+                .trim(),
+            level: Number(paragraph.getElementsByTagName('a:pPr')[0]?.getAttribute('lvl') || 0),
+        }))
+        .filter(paragraph => paragraph.text);
+};
+
+/**
+ * Render a table frame as pipe-separated rows
+ */
+const readPptxTable = (table: Element): string[] => {
+    return Array.from(table.getElementsByTagName('a:tr')).map(row =>
+        Array.from(row.getElementsByTagName('a:tc'))
+            .map(cell => readPptxParagraphs(cell).map(p => p.text).join(' '))
+            .join(' | ')
+    );
+};
+
+/**
+ * Returns the placeholder type of a shape (title, body, sldNum...), if any
+ */
+const getPlaceholderType = (shape: Element): string | null => {
+    const placeholder = shape.getElementsByTagName('p:ph')[0];
+    if (!placeholder) return null;
+    return placeholder.getAttribute('type') || 'body';
+};
+
+/**
+ * Walk a slide's shape tree in document order, separating the title from body text and tables
+ */
+const readPptxShapeTree = (tree: Element, slide: { title: string; lines: string[] }) => {
+    for (const child of Array.from(tree.children)) {
+        if (child.tagName === 'p:grpSp') {
+            readPptxShapeTree(child, slide);
+        } else if (child.tagName === 'p:sp') {
+            const placeholderType = getPlaceholderType(child);
+            if (placeholderType === 'sldNum' || placeholderType === 'dt' || placeholderType === 'ftr') continue;
+
+            const paragraphs = readPptxParagraphs(child);
+            if ((placeholderType === 'title' || placeholderType === 'ctrTitle') && !slide.title) {
+                slide.title = paragraphs.map(p => p.text).join(' ');
+            } else {
+                slide.lines.push(...paragraphs.map(p => `${'  '.repeat(p.level)}- ${p.text}`));
+            }
+        } else if (child.tagName === 'p:graphicFrame') {
+            const table = child.getElementsByTagName('a:tbl')[0];
+            if (table) slide.lines.push(...readPptxTable(table));
+        }
     }
 };
 
 /**
- * Extract text from PPTX file (browser-compatible version)
- * Note: This is a simplified version. For full PPTX support, consider a backend service
+ * Extract text from PPTX file, slide by slide
+ * Reads titles, bullets, tables and speaker notes from the slide XML inside the archive
  */
 export const extractTextFromPPTX = async (file: File): Promise<ProcessedContent> => {
+    let zip: JSZip;
     try {
-        // PPTX files are ZIP archives containing XML files
-        // For browser compatibility, we'll provide a fallback
-        const text = await file.text();
+        zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch (error) {
+        console.error('Error opening PPTX archive:', error);
+        throw new FileProcessingError(
+            'PPTX_CORRUPT',
+            `"${file.name}" could not be opened. The file appears to be damaged or is not a valid PowerPoint file.`
+        );
+    }
 
-        // Try to extract any readable text
-        const cleanedText = text
-            .replace(/[\x00-\x1F\x7F-\x9F]/g, '')
-            .replace(/\s+/g, ' ')
-            .trim();
+    const parser = new DOMParser();
+    const slidePaths = Object.keys(zip.files)
+        .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+        .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
 
-        return {
-            text: cleanedText || 'PowerPoint content detected. Please paste the text manually for best results.',
-            type: FileType.PPTX,
-            metadata: {
-                title: file.name,
-            },
-        };
+    if (slidePaths.length === 0) {
+        throw new FileProcessingError('PPTX_CORRUPT', `"${file.name}" does not contain any slides.`);
+    }
+
+    const segments: ContentSegment[] = [];
+
+    for (const [index, slidePath] of slidePaths.entries()) {
+        const slideNumber = index + 1;
+        const slideXml = parser.parseFromString(await zip.file(slidePath)!.async('string'), 'application/xml');
+        const slide = { title: '', lines: [] as string[] };
+
+        const shapeTree = slideXml.getElementsByTagName('p:spTree')[0];
+        if (shapeTree) readPptxShapeTree(shapeTree, slide);
+
+        // Speaker notes live in a separate part, linked from the slide's relationships
+        const relsPath = slidePath.replace('ppt/slides/', 'ppt/slides/_rels/') + '.rels';
+        const relsFile = zip.file(relsPath);
+        if (relsFile) {
+            const rels = parser.parseFromString(await relsFile.async('string'), 'application/xml');
+            const notesRel = Array.from(rels.getElementsByTagName('Relationship'))
+                .find(rel => rel.getAttribute('Type')?.endsWith('/notesSlide'));
+            const notesTarget = notesRel?.getAttribute('Target')?.replace('../', 'ppt/');
+            const notesFile = notesTarget ? zip.file(notesTarget) : null;
+
+            if (notesFile) {
+                const notesXml = parser.parseFromString(await notesFile.async('string'), 'application/xml');
+                const notes = Array.from(notesXml.getElementsByTagName('p:sp'))
+                    .filter(shape => getPlaceholderType(shape) === 'body')
+                    .flatMap(shape => readPptxParagraphs(shape).map(p => p.text));
+                if (notes.length > 0) {
+                    slide.lines.push(`Speaker notes: ${notes.join(' ')}`);
+                }
+            }
+        }
+
+        if (!slide.title && slide.lines.length === 0) continue;
+
+        segments.push({
+            text: [slide.title, ...slide.lines].filter(Boolean).join('\n'),
+            slide: slideNumber,
+        });
+    }
+
+    return {
+        text: segments.map(segment => `[Slide ${segment.slide}]\n${segment.text}`).join('\n\n'),
+        type: FileType.PPTX,
+        segments,
+        metadata: {
+            title: file.name,
+            slideCount: slidePaths.length,
+        },
+    };
+};
+
+/**
+ * Extract text from DOCX file via mammoth, keeping heading levels as Markdown headings
+ */
+export const extractTextFromDOCX = async (file: File): Promise<ProcessedContent> => {
+    let html: string;
+    try {
+        const result = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+        html = result.value;
+    } catch (error) {
+        console.error('Error extracting DOCX text:', error);
+        throw new FileProcessingError(
+            'DOCX_CORRUPT',
+            `"${file.name}" could not be read. The file appears to be damaged or is not a valid Word document.`
+        );
+    }
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const lines = htmlToLines(doc.body);
+
+    if (lines.length === 0) {
+        throw new FileProcessingError('NO_TEXT_CONTENT', `"${file.name}" does not contain any text.`);
+    }
+
+    return {
+        text: lines.join('\n'),
+        type: FileType.DOCX,
+        segments: splitLinesIntoSections(lines),
+        metadata: {
+            title: file.name,
+        },
+    };
+};
+
+/**
+ * Extract text from EPUB file, chapter by chapter in reading (spine) order
+ */
+export const extractTextFromEPUB = async (file: File): Promise<ProcessedContent> => {
+    const parser = new DOMParser();
+    const corruptError = () => new FileProcessingError(
+        'EPUB_CORRUPT',
+        `"${file.name}" could not be read. The file appears to be damaged or is not a valid EPUB book.`
+    );
+
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(await file.arrayBuffer());
     } catch (error) {
-        console.error('Error extracting PPTX text:', error);
-        throw new Error('Failed to extract text from PowerPoint. Please try copying and pasting the text manually.');
+        console.error('Error opening EPUB archive:', error);
+        throw corruptError();
+    }
+
+    // container.xml points at the package document, which lists the chapters
+    const container = await zip.file('META-INF/container.xml')?.async('string');
+    const packagePath = container
+        ? parser.parseFromString(container, 'application/xml').getElementsByTagName('rootfile')[0]?.getAttribute('full-path')
+        : null;
+    const packageXml = packagePath ? await zip.file(packagePath)?.async('string') : null;
+    if (!packagePath || !packageXml) throw corruptError();
+
+    const packageDoc = parser.parseFromString(packageXml, 'application/xml');
+    const baseDir = packagePath.includes('/') ? packagePath.slice(0, packagePath.lastIndexOf('/') + 1) : '';
+    const manifest = new Map(
+        Array.from(packageDoc.getElementsByTagName('item'))
+            .map(item => [item.getAttribute('id') || '', item.getAttribute('href') || ''] as const)
+    );
+    const chapterPaths = Array.from(packageDoc.getElementsByTagName('itemref'))
+        .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+        .filter((href): href is string => !!href)
+        .map(href => baseDir + decodeURIComponent(href));
+
+    const segments: ContentSegment[] = [];
+
+    for (const chapterPath of chapterPaths) {
+        const chapterHtml = await zip.file(chapterPath)?.async('string');
+        if (!chapterHtml) continue;
+
+        const chapterDoc = parser.parseFromString(chapterHtml, 'text/html');
+        const lines = htmlToLines(chapterDoc.body);
+        if (lines.length === 0) continue;
+
+        segments.push({
+            text: lines.join('\n'),
+            chapter: segments.length + 1,
+            heading: lines.find(line => line.startsWith('#'))?.replace(/^#+ /, ''),
+        });
     }
+
+    if (segments.length === 0) {
+        throw new FileProcessingError('NO_TEXT_CONTENT', `"${file.name}" does not contain any readable chapters.`);
+    }
+
+    return {
+        text: segments.map(segment => `[Chapter ${segment.chapter}]\n${segment.text}`).join('\n\n'),
+        type: FileType.EPUB,
+        segments,
+        metadata: {
+            title: file.name,
+            chapterCount: segments.length,
+        },
+    };
+};
+
+/**
+ * Extract the main content of a saved HTML page, leaving out navigation, scripts and page chrome
+ */
+export const extractTextFromHTML = async (file: File): Promise<ProcessedContent> => {
+    const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+    const root = doc.querySelector('main, article, [role="main"]') || doc.body;
+    const lines = root ? htmlToLines(root) : [];
+
+    if (lines.length === 0) {
+        throw new FileProcessingError('NO_TEXT_CONTENT', `"${file.name}" does not contain any readable text.`);
+    }
+
+    return {
+        text: lines.join('\n'),
+        type: FileType.HTML,
+        segments: splitLinesIntoSections(lines),
+        metadata: {
+            title: cleanInlineText(doc.title) || file.name,
+        },
+    };
 };
 
 /**
@@ -105,98 +491,182 @@ const extractYouTubeVideoId = (url: string): string | null => {
     return null;
 };
 
+// User-facing text for each transcript error code
+const TRANSCRIPT_ERROR_MESSAGES: Record<TranscriptErrorCode, string> = {
+    CAPTIONS_DISABLED: 'Captions are disabled for this video.',
+    NOT_FOUND: 'This video is unavailable or has no transcript.',
+    TOO_SHORT: 'The transcript is too short or empty.',
+    RATE_LIMITED: 'YouTube is rate limiting requests. Please try again in a few minutes.',
+    LANGUAGE_NOT_AVAILABLE: 'No captions are available in the selected language.',
+    PROXY_UNREACHABLE: `Could not reach the content proxy at ${PROXY_BASE_URL}. Is it running? Start it with "npm run proxy".`,
+    TRANSCRIPT_FAILED: 'Failed to extract the transcript.',
+};
+
+const transcriptError = (code: unknown): FileProcessingError => {
+    const known = typeof code === 'string' && code in TRANSCRIPT_ERROR_MESSAGES
+        ? code as TranscriptErrorCode
+        : 'TRANSCRIPT_FAILED';
+    return new FileProcessingError(known, TRANSCRIPT_ERROR_MESSAGES[known]);
+};
+
+const withLanguage = (query: string, lang?: string) => lang ? `${query}&lang=${encodeURIComponent(lang)}` : query;
+
+interface TranscriptItem {
+    text: string;
+    offset: number;
+    duration: number;
+}
+
+const decodeCaptionText = (text: string): string => text
+    .replace(/&amp;#39;|&#39;/g, "'")
+    .replace(/&amp;quot;|&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Decode caption text and drop empty captions. Timings are kept as they are:
+ * youtube-transcript reads them from the timedtext XML, which is in seconds.
+ */
+const normalizeTranscriptItems = (items: TranscriptItem[]): TranscriptItem[] =>
+    items
+        .map(item => ({ text: decodeCaptionText(item.text), offset: item.offset, duration: item.duration }))
+        .filter(item => item.text);
+
 /**
- * Process YouTube URL - adds link as reference
- * Note: Transcript extraction requires manual copying due to browser CORS limitations
+ * Split a transcript into roughly five-minute sections, recording where each caption starts
+ * so excerpts can later be resolved to the exact moment they are spoken
  */
+const splitTranscriptIntoSections = (items: TranscriptItem[]): ContentSegment[] => {
+    const sections: ContentSegment[] = [];
+    let current: ContentSegment | null = null;
+
+    for (const item of items) {
+        if (!current) {
+            current = { text: '', timestampSeconds: item.offset, timeline: [] };
+            sections.push(current);
+        }
 
+        if (current.text) current.text += ' ';
+        current.timeline!.push({ charIndex: current.text.length, timestampSeconds: item.offset });
+        current.text += item.text;
+
+        // Auto-generated captions often have no punctuation, so sections also close at a hard limit
+        const elapsed = item.offset + item.duration - current.timestampSeconds!;
+        const atSentenceEnd = /[.!?]["')\]]?$/.test(item.text);
+        if ((elapsed >= VIDEO_SECTION_SECONDS && atSentenceEnd) || elapsed >= VIDEO_SECTION_SECONDS * 1.5) {
+            current = null;
+        }
+    }
+
+    return sections;
+};
+
+/**
+ * Turn raw caption items into sectioned video content
+ */
+const buildTranscriptContent = (videoId: string, title: string, transcriptItems: TranscriptItem[]): ProcessedContent => {
+    const items = normalizeTranscriptItems(transcriptItems);
+    const transcriptLength = items.reduce((sum, item) => sum + item.text.length, 0);
+
+    if (items.length === 0 || transcriptLength < 50) {
+        throw transcriptError('TOO_SHORT');
+    }
+
+    const sections = splitTranscriptIntoSections(items);
+    const lastItem = items[items.length - 1];
+    const totalSeconds = lastItem.offset + lastItem.duration;
+
+    return {
+        text: sections.map(section => `[${formatTimestamp(section.timestampSeconds!)}]\n${section.text}`).join('\n\n'),
+        type: FileType.YOUTUBE,
+        segments: sections,
+        metadata: {
+            title,
+            url: `https://www.youtube.com/watch?v=${videoId}`,
+            duration: `${Math.max(1, Math.round(totalSeconds / 60))} mins`
+        },
+    };
+};
 
 /**
  * Process YouTube URL - extracts transcript automatically
+ * Failures raise a FileProcessingError whose code says why (captions disabled, rate limited...)
  */
-export const extractYouTubeTranscript = async (url: string): Promise<ProcessedContent> => {
+export const extractYouTubeTranscript = async (url: string, lang?: string): Promise<ProcessedContent> => {
     const videoId = extractYouTubeVideoId(url);
 
     if (!videoId) {
         throw new Error('Invalid YouTube URL. Please provide a valid YouTube video link.');
     }
 
+    // Attempt 1: Proxy Server (The robust solution)
+    let proxyResponse: Response | null = null;
     try {
-        // Attempt 1: Local Proxy Server (The robust solution)
-        // We defer to the standard fetch API to call our local node server
-        let transcriptItems;
-        try {
-            const proxyResponse = await fetch(`http://localhost:3001/transcript?url=${encodeURIComponent(url)}`);
-            if (!proxyResponse.ok) throw new Error('Proxy failed');
-            transcriptItems = await proxyResponse.json();
-            console.log('✅ Fetched transcript via local proxy!');
-        } catch (proxyError) {
-            console.warn('Local proxy skipped:', proxyError);
-            // Attempt 2: Direct Fetch (Fallback)
-            transcriptItems = await YoutubeTranscript.fetchTranscript(url);
-        }
-
-        const transcriptText = transcriptItems
-            .map(item => item.text)
-            .join(' ')
-            .replace(/&amp;#39;/g, "'")
-            .replace(/&amp;quot;/g, '"')
-            .replace(/\s+/g, ' ')
-            .trim();
+        proxyResponse = await fetch(`${PROXY_BASE_URL}/transcript?${withLanguage(`url=${encodeURIComponent(url)}`, lang)}`);
+    } catch (proxyError) {
+        console.warn('Proxy unreachable:', proxyError);
+    }
 
-        if (!transcriptText || transcriptText.length < 50) {
-            throw new Error('Transcript is too short or empty');
+    let transcriptItems: TranscriptItem[];
+    if (proxyResponse) {
+        const data = await proxyResponse.json().catch(() => null);
+        if (!proxyResponse.ok || !Array.isArray(data)) {
+            throw transcriptError(data?.code);
         }
-
-        return {
-            text: `Title: YouTube Video (${videoId})\n\n${transcriptText}`,
-            type: FileType.YOUTUBE,
-            metadata: {
-                title: `YouTube Video (${videoId})`,
-                duration: `${Math.round(transcriptItems[transcriptItems.length - 1].offset / 60)} mins`
-            },
-        };
-
-    } catch (error: any) {
-        console.warn('YouTube Extract Warning:', error.message);
-
-        let errorMessage = 'Failed to extract transcript.';
-        if (error.message && error.message.includes('NetworkError')) {
-            errorMessage = 'Network Error (CORS). Is the proxy running?';
-        } else if (error.message && (error.message.includes('Transcript is too short') || error.message.includes('empty'))) {
-            errorMessage = 'No transcript available for this video (or it is empty).';
-        } else if (error.message && error.message.includes('Transcript is disabled')) {
-            errorMessage = 'Captions are disabled for this video.';
+        transcriptItems = data;
+    } else {
+        // Attempt 2: Direct Fetch (Fallback), which browsers usually block with CORS
+        try {
+            transcriptItems = await YoutubeTranscript.fetchTranscript(url, lang ? { lang } : undefined);
+        } catch (error) {
+            console.warn('Direct transcript fetch failed:', error);
+            throw transcriptError('PROXY_UNREACHABLE');
         }
-
-        const placeholderText = `📺 YouTube Video Added: ${url}\n\n⚠️ ${errorMessage}\n\nWorkaround:\n1. Open Video\n2. Copy transcript/summary\n3. Paste here\n\n(We processed the link, so you just need the text!)`;
-
-        return {
-            text: placeholderText,
-            type: FileType.YOUTUBE,
-            metadata: {
-                title: `YouTube Video (${videoId}) (No Transcript)`,
-            },
-        };
     }
-};
-
 
+    return buildTranscriptContent(videoId, `YouTube Video (${videoId})`, transcriptItems);
+};
 
 /**
  * Process uploaded file based on type
  */
-export const processFile = async (file: File): Promise<ProcessedContent> => {
+export const processFile = async (
+    file: File,
+    onProgress?: ProcessingProgressCallback
+): Promise<ProcessedContent> => {
     const extension = file.name.split('.').pop()?.toLowerCase();
 
     switch (extension) {
         case 'pdf':
-            return extractTextFromPDF(file);
+            return extractTextFromPDF(file, onProgress);
+
+        case 'png':
+        case 'jpg':
+        case 'jpeg':
+        case 'webp':
+            return extractTextFromImage(file, onProgress);
 
         case 'pptx':
-        case 'ppt':
             return extractTextFromPPTX(file);
 
+        case 'ppt':
+            // The legacy binary format is not a zip archive and cannot be read in the browser
+            throw new FileProcessingError(
+                'PPT_LEGACY_FORMAT',
+                `"${file.name}" uses the legacy .ppt format. Please re-save it as .pptx in PowerPoint, Keynote or LibreOffice and upload it again.`
+            );
+
+        case 'docx':
+            return extractTextFromDOCX(file);
+
+        case 'epub':
+            return extractTextFromEPUB(file);
+
+        case 'html':
+        case 'htm':
+            return extractTextFromHTML(file);
+
         case 'txt':
         case 'md':
             const text = await file.text();
@@ -209,7 +679,7 @@ export const processFile = async (file: File): Promise<ProcessedContent> => {
             };
 
         default:
-            throw new Error(`Unsupported file type: ${extension}. Please upload PDF, PPTX, or TXT files.`);
+            throw new Error(`Unsupported file type: ${extension}. Please upload PDF, PPTX, DOCX, EPUB, HTML, image, or TXT files.`);
     }
 };
 
@@ -219,3 +689,148 @@ export const processFile = async (file: File): Promise<ProcessedContent> => {
 export const processYouTubeURL = async (url: string): Promise<ProcessedContent> => {
     return extractYouTubeTranscript(url);
 };
+
+/**
+ * Fetch a web article through the proxy, which extracts its readable main content
+ */
+export const extractWebArticle = async (url: string): Promise<ProcessedContent> => {
+    let response: Response;
+    try {
+        response = await fetch(`${PROXY_BASE_URL}/article?url=${encodeURIComponent(url)}`);
+    } catch (error) {
+        console.error('Error reaching article proxy:', error);
+        throw transcriptError('PROXY_UNREACHABLE');
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data) {
+        throw new Error(data?.error || 'Failed to fetch the article.');
+    }
+
+    return data as ProcessedContent;
+};
+
+/**
+ * Extract YouTube playlist ID from a playlist URL
+ */
+export const extractYouTubePlaylistId = (url: string): string | null => {
+    const match = url.match(/youtube\.com\/playlist\?(?:.*&)?list=([a-zA-Z0-9_-]+)/);
+    return match ? match[1] : null;
+};
+
+export interface PlaylistVideoReport {
+    videoId: string;
+    title: string;
+    status: 'ok' | 'failed';
+    errorCode?: string;
+    message?: string;
+}
+
+export interface ProcessedPlaylist {
+    title: string;
+    contents: ProcessedContent[]; // One per video with a usable transcript
+    videos: PlaylistVideoReport[];
+    skipped: number; // Videos beyond the proxy's per-playlist limit
+}
+
+// Listing returned by the proxy's /playlist route
+interface PlaylistListing {
+    playlistId: string;
+    title: string;
+    videos: { videoId: string; title: string }[];
+    skipped: number;
+}
+
+// Pause between transcript requests so long playlists do not trip YouTube's rate limit
+const PLAYLIST_REQUEST_DELAY_MS = 300;
+
+// Failures that every later video in the playlist would hit as well
+const PLAYLIST_STOPPING_ERRORS: FileProcessingErrorCode[] = ['RATE_LIMITED', 'PROXY_UNREACHABLE'];
+
+/**
+ * Fetch one video's caption items through the proxy's /transcript route
+ */
+const fetchProxyTranscript = async (videoId: string, lang?: string): Promise<TranscriptItem[]> => {
+    let response: Response;
+    try {
+        response = await fetch(`${PROXY_BASE_URL}/transcript?${withLanguage(`url=${videoId}`, lang)}`);
+    } catch (error) {
+        console.error('Error reaching transcript proxy:', error);
+        throw transcriptError('PROXY_UNREACHABLE');
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !Array.isArray(data)) {
+        throw transcriptError(data?.code);
+    }
+    return data;
+};
+
+/**
+ * Fetch every transcript of a YouTube playlist through the proxy, one video at a time.
+ * Each video becomes its own source so concepts keep the video they came from.
+ */
+export const extractYouTubePlaylist = async (
+    url: string,
+    lang?: string,
+    onProgress?: ProcessingProgressCallback
+): Promise<ProcessedPlaylist> => {
+    onProgress?.('Reading playlist...');
+    let response: Response;
+    try {
+        response = await fetch(`${PROXY_BASE_URL}/playlist?url=${encodeURIComponent(url)}`);
+    } catch (error) {
+        console.error('Error reaching playlist proxy:', error);
+        throw transcriptError('PROXY_UNREACHABLE');
+    }
+
+    const data: PlaylistListing | { error?: string; code?: string } | null = await response.json().catch(() => null);
+    if (!response.ok || !data || !('videos' in data)) {
+        const failure = data && 'error' in data ? data : null;
+        throw failure?.code === 'NOT_FOUND' || !failure?.error ? transcriptError(failure?.code) : new Error(failure.error);
+    }
+
+    const contents: ProcessedContent[] = [];
+    const videos: PlaylistVideoReport[] = [];
+    let stoppingError: FileProcessingError | null = null;
+
+    for (const [index, video] of data.videos.entries()) {
+        if (stoppingError) {
+            videos.push({ ...video, status: 'failed', errorCode: stoppingError.code, message: stoppingError.message });
+            continue;
+        }
+
+        onProgress?.(`Fetching transcript ${index + 1} of ${data.videos.length}: ${video.title}`);
+        if (index > 0) await new Promise(resolve => setTimeout(resolve, PLAYLIST_REQUEST_DELAY_MS));
+
+        try {
+            const content = buildTranscriptContent(video.videoId, video.title, await fetchProxyTranscript(video.videoId, lang));
+            contents.push({ ...content, metadata: { ...content.metadata, playlistTitle: data.title } });
+            videos.push({ ...video, status: 'ok' });
+        } catch (error) {
+            const failure = error instanceof FileProcessingError ? error : transcriptError(undefined);
+            videos.push({ ...video, status: 'failed', errorCode: failure.code, message: failure.message });
+            if (PLAYLIST_STOPPING_ERRORS.includes(failure.code)) stoppingError = failure;
+        }
+    }
+
+    if (contents.length === 0) {
+        throw new Error(`None of the ${videos.length} videos in "${data.title}" have a usable transcript.`);
+    }
+
+    return { title: data.title, contents, videos, skipped: data.skipped || 0 };
+};
+
+/**
+ * Process any URL - YouTube links go to the transcript path, everything else is read as an article
+ */
+export const processURL = async (url: string, lang?: string): Promise<ProcessedContent> => {
+    const trimmed = url.trim();
+    if (extractYouTubeVideoId(trimmed)) {
+        return extractYouTubeTranscript(trimmed, lang);
+    }
+    if (!/^https?:\/\//i.test(trimmed)) {
+        throw new Error('Please enter a full URL starting with http:// or https://');
+    }
+    return extractWebArticle(trimmed);
+};
@@ -1,36 +1,58 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Concept, MasteryLevel, Question, QuestionType, AssessmentResult } from "../types";
+import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { Concept, MasteryLevel, Question, QuestionType, AssessmentResult, SourceSegment, MisconceptionType } from "../types";
+import { AICallOptions, AIProvider } from "./aiProvider";
+import { resolveSourceReferences } from "./sourceSegments";
+import { evaluatePromptVars, questionPromptVars, renderPrompt } from "./promptTemplates";
+import { AIValidationError, createAssessmentValidator, RepairRequest, requestValidated, validateConceptList, validateQuestion } from "./aiSchemas";
 
-// Ensure API key is available from Vite environment variables
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
+const DEFAULT_MODEL = "gemini-2.5-flash";
 
-if (!apiKey) {
-  console.error('VITE_GEMINI_API_KEY is not set in environment variables');
-}
+// Server-only: the key is read from the gateway's environment and never bundled into the client
+const getApiKey = () => process.env.GEMINI_API_KEY || '';
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so an unconfigured provider can still be registered
+const getClient = () => client ??= new GoogleGenAI({ apiKey: getApiKey() });
+
+// Passes the token counts of a response on to the caller
+const reportUsage = (response: GenerateContentResponse, options: AICallOptions) => {
+  const usage = response.usageMetadata;
+  if (usage) {
+    options.onUsage?.({ inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 });
+  }
+};
 
-const ai = new GoogleGenAI({ apiKey });
+// On a repair attempt the previous answer and the validation errors continue the conversation
+const withRepair = (prompt: string, repair?: RepairRequest) => repair
+  ? [
+    { role: 'user', parts: [{ text: prompt }] },
+    { role: 'model', parts: [{ text: repair.previousResponse }] },
+    { role: 'user', parts: [{ text: repair.instruction }] }
+  ]
+  : prompt;
 
 /**
- * Extracts concepts from raw text content.
- * Uses gemini-3-pro-preview for complex reasoning and extraction.
+ * Extracts concepts from segmented source material.
+ * Concepts from earlier chunks are passed in so IDs stay consistent across chunks.
  */
-export const extractConceptsFromContent = async (content: string): Promise<Concept[]> => {
-  if (!content.trim()) return [];
+const extractConceptsFromContent = async (
+  segments: SourceSegment[],
+  knownConcepts: Concept[] = [],
+  options: AICallOptions = {}
+): Promise<Concept[]> => {
+  if (segments.length === 0) return [];
 
-  const systemInstruction = `
-    You are an expert curriculum designer. 
-    Analyze the provided learning material and extract a structured Concept Graph.
-    Focus on key concepts, not trivial details. 
-    Identify dependencies (which concepts must be understood before others).
-    Return a JSON list of concepts.
-  `;
+  // The response schema takes the place of the template's output format
+  const prompt = renderPrompt('extract', { segments, knownConcepts });
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-1.5-pro", // Using 2.5-flash which is available in v1beta
-      contents: content,
+  const request = async (repair?: RepairRequest) => {
+    const response = await getClient().models.generateContent({
+      model: options.model || DEFAULT_MODEL,
+      contents: withRepair(prompt.user, repair),
       config: {
-        systemInstruction,
+        systemInstruction: prompt.system,
+        temperature: prompt.temperature,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.ARRAY,
@@ -44,26 +66,41 @@ export const extractConceptsFromContent = async (content: string): Promise<Conce
                 type: Type.ARRAY,
                 items: { type: Type.STRING },
                 description: "Array of IDs of prerequisite concepts found in this list."
+              },
+              sources: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    segmentId: { type: Type.STRING, description: "Segment tag without brackets (e.g., 'S3')." },
+                    excerpt: { type: Type.STRING, description: "Short verbatim quote from that segment." }
+                  },
+                  required: ["segmentId", "excerpt"]
+                }
               }
             },
-            required: ["id", "title", "description", "dependencies"]
+            required: ["id", "title", "description", "dependencies", "sources"]
           }
         }
       }
     });
+    reportUsage(response, options);
+    if (!response.text) throw new Error("Empty response");
+    return response.text;
+  };
 
-    if (response.text) {
-      const parsed = JSON.parse(response.text);
-      // Initialize with default state
-      return parsed.map((c: any) => ({
-        ...c,
-        masteryLevel: MasteryLevel.LOCKED,
-        mistakes: []
-      }));
-    }
-    return [];
+  try {
+    const concepts = await requestValidated('extract', request, validateConceptList);
+    // Initialize with default state
+    return concepts.map(c => ({
+      ...c,
+      sources: resolveSourceReferences(c.sources, segments),
+      masteryLevel: MasteryLevel.LOCKED,
+      mistakes: []
+    }));
   } catch (error) {
     console.error("Gemini Extraction Error:", error);
+    if (error instanceof AIValidationError) throw error;
     throw new Error("Failed to extract concepts.");
   }
 };
@@ -71,33 +108,21 @@ export const extractConceptsFromContent = async (content: string): Promise<Conce
 /**
  * Generates a question based on the concept and current mastery level.
  */
-export const generateQuestion = async (concept: Concept, allConcepts: Concept[]): Promise<Question> => {
-  const currentLevel = concept.masteryLevel === MasteryLevel.LOCKED ? 1 : concept.masteryLevel;
-
-  // Contextualize with related concepts if reasoning level
-  const relatedConcepts = allConcepts
-    .filter(c => concept.dependencies.includes(c.id) || c.dependencies.includes(concept.id))
-    .map(c => c.title)
-    .join(", ");
-
-  const prompt = `
-    Generate a Level ${currentLevel} assessment question for the concept: "${concept.title}".
-    Definition: ${concept.description}.
-    Context: ${relatedConcepts}.
+const generateQuestion = async (
+  concept: Concept,
+  allConcepts: Concept[],
+  askedQuestions: string[] = [],
+  options: AICallOptions = {}
+): Promise<Question> => {
+  const prompt = renderPrompt('question', questionPromptVars(concept, allConcepts, askedQuestions));
 
-    Level 1 (Recognition): Multiple choice. Focus on definition or basic identification.
-    Level 2 (Understanding): Short answer. Ask to explain in own words or fill in the gap.
-    Level 3 (Application): Scenario based. Apply the concept to a new situation.
-    Level 4 (Reasoning): Complex open reasoning. Compare/contrast or discuss trade-offs.
-
-    Return JSON.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-1.5-pro", // Flash is sufficient for single-shot question generation
-      contents: prompt,
+  const request = async (repair?: RepairRequest) => {
+    const response = await getClient().models.generateContent({
+      model: options.model || DEFAULT_MODEL,
+      contents: withRepair(prompt.user, repair),
       config: {
+        systemInstruction: prompt.system,
+        temperature: prompt.temperature,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -117,32 +142,40 @@ export const generateQuestion = async (concept: Concept, allConcepts: Concept[])
               items: { type: Type.STRING },
               description: "Options for multiple choice, null otherwise."
             },
-            correctAnswerContext: { type: Type.STRING, description: "The correct answer or key points to check against." }
+            correctAnswerContext: { type: Type.STRING, description: "The correct answer or key points to check against." },
+            rubric: {
+              type: Type.ARRAY,
+              description: "Key points a complete answer makes, with relative weights.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  description: { type: Type.STRING },
+                  weight: { type: Type.NUMBER }
+                },
+                required: ["description", "weight"]
+              }
+            }
           },
-          required: ["text", "type", "correctAnswerContext"]
+          required: ["text", "type", "correctAnswerContext", "rubric"]
         }
       }
     });
+    reportUsage(response, options);
+    if (!response.text) throw new Error("Empty response");
+    return response.text;
+  };
 
-    if (response.text) {
-      const data = JSON.parse(response.text);
-      return {
-        id: crypto.randomUUID(),
-        conceptId: concept.id,
-        ...data
-      };
-    }
-    throw new Error("Empty response");
-  } catch (error) {
-    console.error("Question Generation Error:", error);
-    // Fallback question
+  try {
+    const data = await requestValidated('question', request, validateQuestion);
     return {
-      id: "error",
+      id: crypto.randomUUID(),
       conceptId: concept.id,
-      text: "Explain the concept of " + concept.title,
-      type: QuestionType.SHORT_ANSWER,
-      correctAnswerContext: concept.description
+      ...data
     };
+  } catch (error) {
+    console.error("Question Generation Error:", error);
+    if (error instanceof AIValidationError) throw error;
+    throw new Error("Failed to generate question.");
   }
 };
 
@@ -150,142 +183,146 @@ export const generateQuestion = async (concept: Concept, allConcepts: Concept[])
  * Evaluates the user's answer.
  * IMPORTANT: This implements the "Teaching-First Feedback System".
  */
-export const evaluateAnswer = async (
+const evaluateAnswer = async (
   question: Question,
   userAnswer: string,
-  concept: Concept
+  concept: Concept,
+  allConcepts: Concept[],
+  passThreshold: number,
+  options: AICallOptions = {}
 ): Promise<AssessmentResult> => {
 
-  const systemInstruction = `
-    You are a supportive, intelligent tutor. 
-    Evaluate the student's answer based on the provided context.
-    NEVER strictly say "Wrong". Instead, identify misunderstandings.
-    If the answer is incorrect, explain WHY and provide the correct reasoning.
-    If correct, reinforce the key insight.
-    
-    Current Mastery Level Target: ${concept.masteryLevel || 1}
-  `;
+  const prompt = renderPrompt('evaluate', evaluatePromptVars(question, userAnswer, concept, allConcepts, passThreshold));
 
-  const prompt = `
-    Question: ${question.text}
-    Context/Correct Answer: ${question.correctAnswerContext}
-    Student Answer: ${userAnswer}
-
-    Determine if the student has demonstrated sufficient understanding to pass this specific check.
-    Return JSON.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-1.5-pro",
-      contents: prompt,
+  const request = async (repair?: RepairRequest) => {
+    const response = await getClient().models.generateContent({
+      model: options.model || DEFAULT_MODEL,
+      contents: withRepair(prompt.user, repair),
       config: {
-        systemInstruction,
+        systemInstruction: prompt.system,
+        temperature: prompt.temperature,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
             isCorrect: { type: Type.BOOLEAN },
-            explanation: { type: Type.STRING, description: "Constructive feedback." }
+            explanation: { type: Type.STRING, description: "Constructive feedback." },
+            criteria: {
+              type: Type.ARRAY,
+              description: "A score for each rubric criterion.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  score: { type: Type.NUMBER, description: "0 to 1." },
+                  comment: { type: Type.STRING }
+                },
+                required: ["id", "score"]
+              }
+            },
+            confidence: { type: Type.NUMBER, description: "0 to 1, how sure you are of the scores." },
+            misconception: {
+              type: Type.OBJECT,
+              nullable: true,
+              description: "The main misconception when the answer is incorrect, null otherwise.",
+              properties: {
+                type: { type: Type.STRING, enum: Object.values(MisconceptionType) },
+                concept: { type: Type.STRING, nullable: true, description: "Title of the concept involved, or null." }
+              },
+              required: ["type"]
+            }
           },
-          required: ["isCorrect", "explanation"]
+          required: ["isCorrect", "explanation", "confidence"]
         }
       }
     });
+    reportUsage(response, options);
+    if (!response.text) throw new Error("Empty response");
+    return response.text;
+  };
 
-    if (response.text) {
-      return JSON.parse(response.text);
-    }
-    throw new Error("Evaluation failed");
+  try {
+    return await requestValidated('evaluate', request, createAssessmentValidator(question.rubric, passThreshold));
   } catch (error) {
     console.error("Evaluation Error:", error);
-    return { isCorrect: false, explanation: "An error occurred during evaluation. Please try again." };
+    if (error instanceof AIValidationError) throw error;
+    throw new Error("Failed to evaluate answer.");
   }
 };
 
+// Emojis that might slip through despite the prompt
+const EMOJI_PATTERN = /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu;
+
 /**
  * Generates a unified summary of the session.
  * Creates professional, well-formatted notes without emojis.
  */
-export const generateUnifiedSummary = async (concepts: Concept[]): Promise<string> => {
+const generateUnifiedSummary = async (concepts: Concept[], options: AICallOptions = {}): Promise<string> => {
   if (concepts.length === 0) return "No concepts to summarize.";
 
-  const conceptData = concepts.map(c => ({
-    title: c.title,
-    description: c.description,
-    masteryLevel: c.masteryLevel,
-    dependencies: c.dependencies,
-    mistakes: c.mistakes.map(m => ({
-      question: m.question,
-      userAnswer: m.userAnswer,
-      correction: m.correction,
-      type: m.misunderstandingType
-    }))
-  }));
-
-  const systemInstruction = `
-    You are an expert educational content writer creating professional study notes.
-    
-    CRITICAL RULES:
-    - NO EMOJIS whatsoever
-    - Use clear, professional language
-    - Create well-structured, hierarchical content
-    - Use proper markdown formatting
-    - Include specific examples and explanations
-    - Make content scannable with headers and lists
-  `;
-
-  const prompt = `
-    Generate a comprehensive, professional study guide in Markdown format based on these learned concepts.
-    
-    Structure the document as follows:
-    
-    1. OVERVIEW
-       - Brief introduction to the topic
-       - Key learning objectives
-       - Total concepts covered
-    
-    2. CONCEPT BREAKDOWN
-       - For each concept, provide:
-         * Clear definition
-         * Detailed explanation
-         * Key points (as bullet lists)
-         * Relationships to other concepts
-         * Mastery level achieved
-    
-    3. COMMON MISTAKES AND CORRECTIONS
-       - Document specific mistakes made during learning
-       - Provide clear corrections and explanations
-       - Highlight common pitfalls to avoid
-    
-    4. SUMMARY AND NEXT STEPS
-       - Recap key takeaways
-       - Suggest areas for further study
-       - Provide practice recommendations
-    
-    Concept Data:
-    ${JSON.stringify(conceptData, null, 2)}
-    
-    Remember: NO EMOJIS. Professional formatting only. Use markdown headers (##, ###), bullet points, and bold text for emphasis.
-  `;
+  const prompt = renderPrompt('summary', { concepts });
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-1.5-pro",
-      contents: prompt,
+    const response = await getClient().models.generateContent({
+      model: options.model || DEFAULT_MODEL,
+      contents: prompt.user,
       config: {
-        systemInstruction,
+        systemInstruction: prompt.system,
+        temperature: prompt.temperature,
       }
     });
 
-    let summary = response.text || "# Summary\n\nCould not generate summary.";
-
-    // Remove any emojis that might have slipped through
-    summary = summary.replace(/[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu, '');
+    reportUsage(response, options);
+    const summary = response.text;
+    if (!summary) throw new Error("Empty response");
 
-    return summary;
+    return summary.replace(EMOJI_PATTERN, '');
   } catch (e) {
     console.error('Summary generation error:', e);
-    return "# Error\n\nFailed to generate summary.";
+    throw new Error("Failed to generate summary.");
   }
 };
+
+/**
+ * Streams the unified summary as the model writes it.
+ * Errors, including cancellation through `options.signal`, propagate to the consumer.
+ */
+async function* streamUnifiedSummary(concepts: Concept[], options: AICallOptions = {}): AsyncGenerator<string> {
+  if (concepts.length === 0) {
+    yield "No concepts to summarize.";
+    return;
+  }
+
+  const prompt = renderPrompt('summary', { concepts });
+  const stream = await getClient().models.generateContentStream({
+    model: options.model || DEFAULT_MODEL,
+    contents: prompt.user,
+    config: {
+      systemInstruction: prompt.system,
+      temperature: prompt.temperature,
+      abortSignal: options.signal,
+    }
+  });
+
+  // Usage metadata is cumulative, so only the last chunk's counts matter
+  let last: GenerateContentResponse | null = null;
+  for await (const chunk of stream) {
+    last = chunk;
+    const text = chunk.text?.replace(EMOJI_PATTERN, '');
+    if (text) yield text;
+  }
+  if (last) reportUsage(last, options);
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: [DEFAULT_MODEL, 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  defaultModel: DEFAULT_MODEL,
+  isConfigured: () => getApiKey().length > 5,
+  extractConceptsFromContent,
+  generateQuestion,
+  evaluateAnswer,
+  generateUnifiedSummary,
+  streamUnifiedSummary,
+};
@@ -0,0 +1,64 @@
+/**
+ * Grading
+ *
+ * Rubric-based partial credit. A question's rubric lists weighted key points, the
+ * grader scores each one from 0 to 1, and the overall score is their weighted mean.
+ * Whether an answer passes is that score against the pass threshold, not the grader's
+ * own verdict; evaluations set `isCorrect` from it, so an answer's feedback, its
+ * misconception and the learner's progress all follow the same result.
+ */
+
+import { CriterionScore, RubricCriterion } from "../types";
+
+export interface GradingSettings {
+    passThreshold: number; // Overall rubric score (0-1) an answer needs to progress
+}
+
+const GRADING_SETTINGS_STORAGE_KEY = 'learnforge.gradingSettings';
+
+export const DEFAULT_GRADING_SETTINGS: GradingSettings = {
+    passThreshold: 0.7,
+};
+
+export const PASS_THRESHOLD_OPTIONS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+// A criterion counts as met from this score up; below it, the point is listed as missed
+const CRITERION_MET_SCORE = 0.5;
+
+export const getGradingSettings = (): GradingSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(GRADING_SETTINGS_STORAGE_KEY) || '{}');
+        return {
+            passThreshold: PASS_THRESHOLD_OPTIONS.includes(saved.passThreshold) ? saved.passThreshold : DEFAULT_GRADING_SETTINGS.passThreshold,
+        };
+    } catch {
+        return DEFAULT_GRADING_SETTINGS;
+    }
+};
+
+export const saveGradingSettings = (settings: GradingSettings) => {
+    localStorage.setItem(GRADING_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const isCriterionMet = (score: number): boolean => score >= CRITERION_MET_SCORE;
+
+/**
+ * Weighted mean of the criterion scores; criteria without a score count as 0
+ */
+export const scoreRubric = (rubric: RubricCriterion[], scores: Pick<CriterionScore, 'criterionId' | 'score'>[]): number => {
+    const totalWeight = rubric.reduce((sum, criterion) => sum + criterion.weight, 0);
+    if (totalWeight <= 0) return 0;
+
+    const earned = rubric.reduce((sum, criterion) => {
+        const score = scores.find(s => s.criterionId === criterion.id)?.score ?? 0;
+        return sum + criterion.weight * score;
+    }, 0);
+    return earned / totalWeight;
+};
+
+// Absorbs rounding in the weighted mean, so e.g. 0.7 of the weight at full credit passes a 0.7 threshold
+const SCORE_TOLERANCE = 1e-9;
+
+export const isPassingScore = (score: number, passThreshold: number): boolean => score >= passThreshold - SCORE_TOLERANCE;
+
+export const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
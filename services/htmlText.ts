@@ -0,0 +1,86 @@
+/**
+ * HTML Text
+ *
+ * Flattens HTML into Markdown-style text lines and sections. Shared by the browser
+ * (DOCX, EPUB and HTML uploads) and the proxy server (web articles, parsed with
+ * linkedom), so it only relies on the DOM API both provide; in particular it avoids
+ * `instanceof Element`, since Node has no global `Element`.
+ */
+
+import type { ContentSegment } from "./fileProcessing";
+
+// Markup that never carries the main content of a document
+const SKIPPED_HTML_TAGS = new Set([
+    'script', 'style', 'noscript', 'template', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'iframe', 'svg',
+]);
+
+const BLOCK_HTML_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'main', 'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tr',
+    'blockquote', 'pre', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+
+export const cleanInlineText = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+const isList = (element: Element) => ['ul', 'ol'].includes(element.tagName.toLowerCase());
+
+/**
+ * Flatten an HTML tree into text lines, keeping headings as Markdown (#, ##...) and list items as bullets
+ */
+export const htmlToLines = (root: Element): string[] => {
+    const lines: string[] = [];
+
+    const walk = (element: Element, listDepth: number) => {
+        for (const child of Array.from(element.children)) {
+            const tag = child.tagName.toLowerCase();
+            if (SKIPPED_HTML_TAGS.has(tag) || child.getAttribute('aria-hidden') === 'true') continue;
+
+            if (/^h[1-6]$/.test(tag)) {
+                const text = cleanInlineText(child.textContent);
+                if (text) lines.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+            } else if (tag === 'ul' || tag === 'ol') {
+                walk(child, listDepth + 1);
+            } else if (tag === 'li') {
+                // Text that belongs to this item, without any nested lists
+                const nestedLists = Array.from(child.children).filter(isList);
+                const ownText = cleanInlineText(
+                    Array.from(child.childNodes)
+                        .filter(node => !nestedLists.includes(node as Element))
+                        .map(node => node.textContent)
+                        .join(' ')
+                );
+                if (ownText) lines.push(`${'  '.repeat(Math.max(listDepth - 1, 0))}- ${ownText}`);
+                nestedLists.forEach(nested => walk(nested, listDepth + 1));
+            } else if (tag === 'tr') {
+                const cells = Array.from(child.children).map(cell => cleanInlineText(cell.textContent));
+                if (cells.some(Boolean)) lines.push(cells.join(' | '));
+            } else if (Array.from(child.children).some(nested => BLOCK_HTML_TAGS.has(nested.tagName.toLowerCase()))) {
+                walk(child, listDepth);
+            } else {
+                const text = cleanInlineText(child.textContent);
+                if (text) lines.push(text);
+            }
+        }
+    };
+
+    walk(root, 0);
+    return lines;
+};
+
+/**
+ * Group text lines into sections, starting a new one at every top-level (# or ##) heading
+ */
+export const splitLinesIntoSections = (lines: string[]): ContentSegment[] => {
+    const segments: ContentSegment[] = [];
+    let current: ContentSegment | null = null;
+
+    for (const line of lines) {
+        const heading = line.match(/^#{1,2} (.+)$/);
+        if (heading || !current) {
+            current = { text: '', heading: heading?.[1] };
+            segments.push(current);
+        }
+        current.text += (current.text ? '\n' : '') + line;
+    }
+
+    return segments;
+};
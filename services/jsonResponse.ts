@@ -0,0 +1,44 @@
+/**
+ * JSON Response Parsing
+ *
+ * Models without a native JSON mode often wrap their answer in prose or
+ * markdown code fences. These helpers recover the JSON payload from such text.
+ */
+
+// Appended to prompts when the model cannot be put into JSON mode
+export const JSON_ONLY_INSTRUCTION = `
+
+Respond with the JSON only. Do not add explanations, and do not wrap it in markdown code fences.`;
+
+/**
+ * Parses model output as JSON, tolerating code fences and text around the payload.
+ * Throws when no JSON value can be recovered.
+ */
+export const parseJsonResponse = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        // Fall through to the lenient strategies below
+    }
+
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) {
+        try {
+            return JSON.parse(fenced[1]);
+        } catch {
+            // The fence may hold more than the payload; keep looking
+        }
+    }
+
+    // Take the outermost object or array, whichever starts first
+    const start = text.search(/[{[]/);
+    if (start !== -1) {
+        const closing = text[start] === '{' ? '}' : ']';
+        const end = text.lastIndexOf(closing);
+        if (end > start) {
+            return JSON.parse(text.slice(start, end + 1));
+        }
+    }
+
+    throw new SyntaxError('No JSON found in model response');
+};
@@ -0,0 +1,46 @@
+import OpenAI from 'openai';
+import { AIOperation } from "./aiProvider";
+import { createOpenAICompatibleProvider } from "./openaiService";
+
+/**
+ * Self-hosted models behind an OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM),
+ * so course material never leaves your own infrastructure. Server-only, configured through:
+ *
+ *   LOCAL_AI_BASE_URL       e.g. http://localhost:11434/v1 (enables the provider)
+ *   LOCAL_AI_API_KEY        only if the server requires one
+ *   LOCAL_AI_MODEL          model for every operation
+ *   LOCAL_AI_<OP>_MODEL     per-operation override, OP = EXTRACT | QUESTION | EVALUATE | SUMMARY
+ *   LOCAL_AI_JSON_MODE      auto (default), native or prompt
+ */
+
+const DEFAULT_MODEL = 'llama3.1';
+
+const OPERATION_ENV: Record<AIOperation, string> = {
+    extract: 'LOCAL_AI_EXTRACT_MODEL',
+    question: 'LOCAL_AI_QUESTION_MODEL',
+    evaluate: 'LOCAL_AI_EVALUATE_MODEL',
+    summary: 'LOCAL_AI_SUMMARY_MODEL',
+};
+
+const getBaseUrl = () => (process.env.LOCAL_AI_BASE_URL || '').replace(/\/$/, '');
+
+const getModel = (operation: AIOperation) =>
+    process.env[OPERATION_ENV[operation]] || process.env.LOCAL_AI_MODEL || DEFAULT_MODEL;
+
+const getJsonMode = () => {
+    const mode = process.env.LOCAL_AI_JSON_MODE;
+    return mode === 'native' || mode === 'prompt' ? mode : 'auto';
+};
+
+let client: OpenAI | null = null;
+
+export const localModelProvider = createOpenAICompatibleProvider({
+    id: 'local',
+    label: 'Local model',
+    // Local servers usually ignore the key, but the SDK requires one
+    getClient: () => client ??= new OpenAI({ baseURL: getBaseUrl(), apiKey: process.env.LOCAL_AI_API_KEY || 'not-needed' }),
+    isConfigured: () => getBaseUrl().length > 0,
+    getModels: () => [...new Set((Object.keys(OPERATION_ENV) as AIOperation[]).map(getModel))],
+    getModel,
+    get jsonMode() { return getJsonMode(); },
+});
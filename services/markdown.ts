@@ -0,0 +1,12 @@
+/**
+ * Markdown Rendering
+ *
+ * Summaries and notes are written by the AI from user-supplied material, so their
+ * HTML is sanitized before it is put into the page.
+ */
+
+import { marked } from "marked";
+import DOMPurify from "dompurify";
+
+export const renderMarkdown = (markdown: string): string =>
+    DOMPurify.sanitize(marked.parse(markdown, { async: false }));
@@ -0,0 +1,83 @@
+/**
+ * Misconceptions
+ *
+ * Labels for the misconception taxonomy that evaluations classify incorrect answers
+ * into, and the remediation step a learning game inserts when the same kind of
+ * mistake keeps coming back for a concept.
+ */
+
+import { Concept, MisconceptionType } from "../types";
+
+export const MISCONCEPTION_LABELS: Record<MisconceptionType, string> = {
+    [MisconceptionType.CONFUSED_WITH_OTHER_CONCEPT]: 'Confused with another concept',
+    [MisconceptionType.MISSING_PREREQUISITE]: 'Missing prerequisite',
+    [MisconceptionType.PARTIAL_DEFINITION]: 'Partial definition',
+    [MisconceptionType.PROCEDURAL_ERROR]: 'Procedural error',
+    [MisconceptionType.MISREAD_QUESTION]: 'Misread question',
+};
+
+// Mistakes of one type on a concept before a remediation step is inserted, and again at every multiple
+const REMEDIATION_REPEAT_COUNT = 2;
+
+export type RemediationKind =
+    | 'prerequisite-review' // Revisit the prerequisite the mistakes point at
+    | 'contrast' // Set the concept side by side with the one it keeps being confused with
+    | 'definition-review' // Re-read the full definition and its sources
+    | 'worked-example' // Walk through the feedback on the earlier attempts
+    | 'careful-reading'; // Slow down and restate the question before answering
+
+export interface RemediationStep {
+    kind: RemediationKind;
+    misconceptionType: MisconceptionType;
+    relatedConcept?: Concept; // The prerequisite to review, or the concept to contrast with
+    corrections: string[]; // Feedback on the mistakes of this type, most recent last
+}
+
+export const isMisconceptionType = (value: string | undefined): value is MisconceptionType =>
+    (Object.values(MisconceptionType) as string[]).includes(value);
+
+/**
+ * The session concept a misconception names; models may vary the title's case
+ */
+export const findConceptByTitle = (title: string | undefined, allConcepts: Concept[]): Concept | undefined => {
+    const wanted = title?.trim().toLowerCase();
+    return wanted ? allConcepts.find(c => c.title.trim().toLowerCase() === wanted) : undefined;
+};
+
+/**
+ * The remediation step due after a concept's latest mistake, or null when that
+ * mistake's misconception type has not repeated often enough yet
+ */
+export const getRemediationStep = (concept: Concept, allConcepts: Concept[]): RemediationStep | null => {
+    const latest = concept.mistakes[concept.mistakes.length - 1];
+    if (!latest || !isMisconceptionType(latest.misunderstandingType)) return null;
+
+    const sameType = concept.mistakes.filter(m => m.misunderstandingType === latest.misunderstandingType);
+    if (sameType.length % REMEDIATION_REPEAT_COUNT !== 0) return null;
+
+    const misconceptionType = latest.misunderstandingType;
+    const corrections = sameType.map(m => m.correction);
+    const named = findConceptByTitle(latest.relatedConcept, allConcepts.filter(c => c.id !== concept.id));
+
+    switch (misconceptionType) {
+        case MisconceptionType.MISSING_PREREQUISITE: {
+            // Without a recognisable name, the least mastered prerequisite is the likeliest gap
+            const relatedConcept = named ?? allConcepts
+                .filter(c => concept.dependencies.includes(c.id))
+                .sort((a, b) => a.masteryLevel - b.masteryLevel)[0];
+            return relatedConcept
+                ? { kind: 'prerequisite-review', misconceptionType, relatedConcept, corrections }
+                : { kind: 'definition-review', misconceptionType, corrections };
+        }
+        case MisconceptionType.CONFUSED_WITH_OTHER_CONCEPT:
+            return named
+                ? { kind: 'contrast', misconceptionType, relatedConcept: named, corrections }
+                : { kind: 'definition-review', misconceptionType, corrections };
+        case MisconceptionType.PROCEDURAL_ERROR:
+            return { kind: 'worked-example', misconceptionType, corrections };
+        case MisconceptionType.MISREAD_QUESTION:
+            return { kind: 'careful-reading', misconceptionType, corrections };
+        default:
+            return { kind: 'definition-review', misconceptionType, corrections };
+    }
+};
@@ -0,0 +1,441 @@
+import { Concept, MasteryLevel, Question, QuestionType, AssessmentResult, SourceSegment, Misconception, MisconceptionType, RubricCriterion, CriterionScore } from "../types";
+import { AICallOptions, AIOperation, AIProvider } from "./aiProvider";
+import { resolveSourceReferences } from "./sourceSegments";
+import { isNearDuplicateQuestion } from "./questionSimilarity";
+import { isMisconceptionType, MISCONCEPTION_LABELS } from "./misconceptions";
+import { isCriterionMet, isPassingScore, scoreRubric } from "./grading";
+
+/**
+ * Deterministic mock AI provider for offline development, demos and tests.
+ * Every result is derived from the input text alone, so the same material always
+ * yields the same concept graph, questions, evaluations and summary.
+ * Runs unchanged on the gateway server or directly in the browser.
+ */
+
+export interface MockAISettings {
+    latencyMs: number; // Simulated response time per call
+    failureRate: number; // 0..1, share of calls that fail; which calls fail is also deterministic
+    failOperations: AIOperation[]; // Operations that always fail
+}
+
+export const DEFAULT_MOCK_SETTINGS: MockAISettings = { latencyMs: 300, failureRate: 0, failOperations: [] };
+
+const MOCK_MODEL = 'mock-v1';
+const MAX_CONCEPTS_PER_CHUNK = 8;
+// Streamed summaries arrive a few words at a time, like tokens from a real model
+const STREAM_WORDS_PER_CHUNK = 4;
+const STREAM_CHUNK_DELAY_MS = 30;
+// Variants tried per question before settling for one the learner has seen
+const MAX_QUESTION_VARIANTS = 12;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'of', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'from', 'as',
+    'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'which', 'who',
+    'what', 'when', 'where', 'how', 'why', 'can', 'will', 'would', 'should', 'could', 'may', 'also', 'not',
+    'into', 'than', 'then', 'there', 'their', 'they', 'we', 'you', 'our', 'your', 'has', 'have', 'had',
+    'more', 'most', 'such', 'each', 'other', 'some', 'any', 'all', 'one', 'two', 'used', 'use', 'using',
+    'happens', 'called', 'known', 'like', 'many', 'much', 'very', 'only', 'just', 'about', 'over', 'between',
+]);
+
+// FNV-1a: a small stable hash so "random" choices repeat for the same input
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const titleCase = (text: string) => text.replace(/\b\w/g, letter => letter.toUpperCase());
+
+const splitSentences = (text: string): string[] =>
+    text.replace(/\s+/g, ' ').split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 20);
+
+const keywords = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z][a-z-]{2,}/g) || []).filter(word => !STOP_WORDS.has(word));
+
+/**
+ * Key terms of a chunk, most frequent first; ties are broken by first appearance.
+ * Two-word phrases that repeat (e.g. "calvin cycle") win over their separate words.
+ */
+const rankTerms = (text: string): string[] => {
+    const counts = new Map<string, number>();
+    const count = (term: string) => counts.set(term, (counts.get(term) || 0) + 1);
+
+    for (const sentence of splitSentences(text)) {
+        const words = sentence.toLowerCase().match(/[a-z][a-z-]*/g) || [];
+        words.forEach((word, i) => {
+            if (STOP_WORDS.has(word) || word.length < 4) return;
+            count(word);
+            const next = words[i + 1];
+            if (next && !STOP_WORDS.has(next) && next.length >= 4) count(`${word} ${next}`);
+        });
+    }
+
+    const phrases = [...counts.entries()].filter(([term, n]) => term.includes(' ') && n >= 2);
+    const phraseWords = new Set(phrases.flatMap(([term]) => term.split(' ')));
+    const words = [...counts.entries()].filter(([term]) => !term.includes(' ') && !phraseWords.has(term));
+
+    return [...phrases, ...words]
+        .sort((a, b) => b[1] - a[1])
+        .map(([term]) => term);
+};
+
+// Rough token count (about four characters per token), so usage accounting has numbers to show
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const reportUsage = (options: AICallOptions | undefined, input: unknown, output: unknown) => {
+    options?.onUsage?.({ inputTokens: estimateTokens(JSON.stringify(input)), outputTokens: estimateTokens(JSON.stringify(output)) });
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const simulate = async (settings: MockAISettings, operation: AIOperation, input: string) => {
+    if (settings.latencyMs > 0) {
+        await sleep(settings.latencyMs);
+    }
+    const failsByRate = (hashString(`${operation}:${input}`) % 1000) / 1000 < settings.failureRate;
+    if (settings.failOperations.includes(operation) || failsByRate) {
+        throw new Error(`Mock failure injected for ${operation}`);
+    }
+};
+
+const extractConcepts = (segments: SourceSegment[], knownConcepts: Concept[]): Concept[] => {
+    const text = segments.map(segment => segment.text).join('\n');
+    const knownIds = new Set(knownConcepts.map(concept => concept.id));
+    const terms = rankTerms(text).filter(term => !knownIds.has(slugify(term))).slice(0, MAX_CONCEPTS_PER_CHUNK);
+
+    const concepts: Concept[] = [];
+    for (const term of terms) {
+        const segment = segments.find(s => s.text.toLowerCase().includes(term));
+        const sentence = segment && splitSentences(segment.text).find(s => s.toLowerCase().includes(term));
+        if (!segment || !sentence) continue;
+
+        // Each concept builds on the one before it, so the graph is a chain that is always acyclic
+        const previous = concepts[concepts.length - 1] ?? knownConcepts[knownConcepts.length - 1];
+        concepts.push({
+            id: slugify(term),
+            title: titleCase(term),
+            description: sentence,
+            dependencies: previous ? [previous.id] : [],
+            sources: resolveSourceReferences([{ segmentId: segment.id, excerpt: sentence }], segments),
+            masteryLevel: MasteryLevel.LOCKED,
+            mistakes: []
+        });
+    }
+    return concepts;
+};
+
+// Phrasings per level; later variants cycle through them with a numbered suffix
+const QUESTION_PHRASINGS: Record<number, ((title: string) => string)[]> = {
+    [MasteryLevel.RECOGNITION]: [
+        title => `Which statement best describes "${title}"?`,
+        title => `Pick the correct definition of "${title}".`,
+        title => `Select the description that matches "${title}".`,
+    ],
+    [MasteryLevel.UNDERSTANDING]: [
+        title => `In your own words, explain what "${title}" means.`,
+        title => `How would you explain "${title}" to someone meeting it for the first time?`,
+        title => `Summarise the idea behind "${title}" and why it matters.`,
+    ],
+    [MasteryLevel.APPLICATION]: [
+        title => `A colleague is working on a new project and runs into "${title}". Describe how you would apply it in their situation.`,
+        title => `Give a concrete example where "${title}" is the right tool, and walk through using it.`,
+        title => `Imagine reviewing a design that ignores "${title}". What problem would you expect, and how would applying it help?`,
+    ],
+};
+
+// Key points in a free-text rubric; the first carries double weight
+const MAX_RUBRIC_CRITERIA = 4;
+
+/**
+ * A rubric of the answer's key terms, most frequent first; a multiple choice
+ * question is only about picking the right option
+ */
+const buildRubric = (type: QuestionType, correctAnswerContext: string): RubricCriterion[] => {
+    if (type === QuestionType.MULTIPLE_CHOICE) {
+        return [{ id: 'k1', description: 'Chooses the option that matches the definition', weight: 1 }];
+    }
+    const terms = rankTerms(correctAnswerContext).slice(0, MAX_RUBRIC_CRITERIA);
+    if (terms.length === 0) return [{ id: 'k1', description: 'Explains the concept correctly', weight: 1 }];
+    return terms.map((term, i) => ({ id: `k${i + 1}`, description: `Mentions "${term}"`, weight: i === 0 ? 2 : 1 }));
+};
+
+/**
+ * The question for one variant. A new attempt after a mistake starts at a later variant,
+ * and variants the learner has already been asked are skipped.
+ */
+const buildQuestion = (concept: Concept, allConcepts: Concept[], variant: number = concept.mistakes.length): Question => {
+    const question = buildQuestionText(concept, allConcepts, variant);
+    return { ...question, rubric: buildRubric(question.type, question.correctAnswerContext) };
+};
+
+const buildQuestionText = (concept: Concept, allConcepts: Concept[], variant: number): Question => {
+    const level = concept.masteryLevel === MasteryLevel.LOCKED ? 1 : concept.masteryLevel;
+    const phrasings = QUESTION_PHRASINGS[level];
+    const phrase = (title: string) => phrasings[variant % phrasings.length](title);
+    const suffix = variant >= (phrasings?.length ?? 2) ? ` (variation ${variant + 1})` : '';
+    const base = { id: `mock-${concept.id}-${level}-${variant}`, conceptId: concept.id };
+    const related = allConcepts.find(c => c.id !== concept.id && (concept.dependencies.includes(c.id) || c.dependencies.includes(concept.id)));
+
+    switch (level) {
+        case MasteryLevel.RECOGNITION: {
+            // Concepts can share a source sentence, so drop descriptions that would repeat an option
+            const distractors = [...new Set(allConcepts
+                .filter(c => c.id !== concept.id && c.description !== concept.description)
+                .sort((a, b) => hashString(concept.id + a.id) - hashString(concept.id + b.id))
+                .map(c => c.description))]
+                .slice(0, 3);
+            while (distractors.length < 3) {
+                distractors.push(`An unrelated idea (${distractors.length + 1}) that the material does not discuss.`);
+            }
+            const options = [concept.description, ...distractors]
+                .sort((a, b) => hashString(a + variant) - hashString(b + variant));
+            return {
+                ...base,
+                text: `${phrase(concept.title)}${suffix}`,
+                type: QuestionType.MULTIPLE_CHOICE,
+                options,
+                correctAnswerContext: concept.description
+            };
+        }
+        case MasteryLevel.UNDERSTANDING:
+            return {
+                ...base,
+                text: `${phrase(concept.title)}${suffix}`,
+                type: QuestionType.SHORT_ANSWER,
+                correctAnswerContext: concept.description
+            };
+        case MasteryLevel.APPLICATION:
+            return {
+                ...base,
+                text: `${phrase(concept.title)}${suffix}`,
+                type: QuestionType.SCENARIO,
+                correctAnswerContext: concept.description
+            };
+        default: {
+            // Reasoning questions alternate between a comparison and the concept's limits
+            const compared = variant % 2 === 0 ? related : undefined;
+            return {
+                ...base,
+                text: compared
+                    ? `Compare "${concept.title}" with "${compared.title}". What are the trade-offs between them?${suffix}`
+                    : `What are the limitations and edge cases of "${concept.title}"?${suffix}`,
+                type: QuestionType.OPEN_REASONING,
+                correctAnswerContext: compared ? `${concept.description} ${compared.description}` : concept.description
+            };
+        }
+    }
+};
+
+// Share of the reference text's key terms that the answer mentions
+const termCoverage = (reference: string, answerTerms: Set<string>): number => {
+    const terms = new Set(keywords(reference));
+    return terms.size > 0 ? [...terms].filter(term => answerTerms.has(term)).length / terms.size : 0;
+};
+
+/**
+ * Classifies an incorrect answer from the words it uses: an answer closer to another
+ * concept's definition confuses the two, an answer with nothing relevant points at a
+ * prerequisite (or a misread question when there is none), and anything else is partial.
+ */
+const classifyMisconception = (question: Question, userAnswer: string, concept: Concept, allConcepts: Concept[]): Misconception => {
+    const answerTerms = new Set(keywords(userAnswer));
+    const coverage = termCoverage(question.correctAnswerContext || '', answerTerms);
+
+    const confusedWith = allConcepts
+        .filter(c => c.id !== concept.id)
+        .map(c => ({ concept: c, coverage: termCoverage(c.description, answerTerms) }))
+        .filter(match => match.coverage > coverage)
+        .sort((a, b) => b.coverage - a.coverage)[0];
+    if (confusedWith) {
+        return { type: MisconceptionType.CONFUSED_WITH_OTHER_CONCEPT, conceptTitle: confusedWith.concept.title };
+    }
+
+    if (coverage === 0) {
+        const weakestPrerequisite = allConcepts
+            .filter(c => concept.dependencies.includes(c.id))
+            .sort((a, b) => a.masteryLevel - b.masteryLevel)[0];
+        return weakestPrerequisite
+            ? { type: MisconceptionType.MISSING_PREREQUISITE, conceptTitle: weakestPrerequisite.title }
+            : { type: MisconceptionType.MISREAD_QUESTION };
+    }
+
+    return {
+        type: question.type === QuestionType.SCENARIO ? MisconceptionType.PROCEDURAL_ERROR : MisconceptionType.PARTIAL_DEFINITION
+    };
+};
+
+// Share of a criterion's quoted term (or of its whole description) that the answer mentions
+const scoreCriterion = (criterion: RubricCriterion, answerTerms: Set<string>): number => {
+    const term = criterion.description.match(/"([^"]+)"/)?.[1] ?? criterion.description;
+    return Math.round(termCoverage(term, answerTerms) * 100) / 100;
+};
+
+const evaluate = (question: Question, userAnswer: string, concept: Concept, allConcepts: Concept[], passThreshold: number): AssessmentResult => {
+    const expected = question.correctAnswerContext || '';
+    const rubric = question.rubric ?? [];
+
+    if (question.type === QuestionType.MULTIPLE_CHOICE) {
+        const isCorrect = userAnswer.trim() === expected.trim();
+        const criteria: CriterionScore[] = rubric.map(c => ({ criterionId: c.id, score: isCorrect ? 1 : 0, met: isCorrect }));
+        return {
+            isCorrect,
+            explanation: isCorrect
+                ? 'Correct. That option matches how the material defines this concept.'
+                : `Not quite. The material describes it as: "${expected}"`,
+            misconception: isCorrect ? undefined : classifyMisconception(question, userAnswer, concept, allConcepts),
+            score: rubric.length > 0 ? (isCorrect ? 1 : 0) : undefined,
+            criteria: rubric.length > 0 ? criteria : undefined,
+            confidence: 1
+        };
+    }
+
+    const answerTerms = new Set(keywords(userAnswer));
+
+    // Rubric questions pass on their weighted score, older ones when they cover enough of the expected key terms
+    if (rubric.length > 0) {
+        const criteria: CriterionScore[] = rubric.map(c => {
+            const score = scoreCriterion(c, answerTerms);
+            return { criterionId: c.id, score, met: isCriterionMet(score) };
+        });
+        const score = scoreRubric(rubric, criteria);
+        const isCorrect = isPassingScore(score, passThreshold);
+        const met = rubric.filter((_, i) => criteria[i].met).map(c => c.description);
+        const missed = rubric.filter((_, i) => !criteria[i].met).map(c => c.description);
+
+        return {
+            isCorrect,
+            explanation: isCorrect
+                ? `Good answer. Points made: ${met.join('; ')}.${missed.length > 0 ? ` Still missing: ${missed.join('; ')}.` : ''}`
+                : `Your answer misses some key points (${missed.join('; ')}). Reference: "${expected}"`,
+            misconception: isCorrect ? undefined : classifyMisconception(question, userAnswer, concept, allConcepts),
+            score,
+            criteria,
+            confidence: 0.6 // Word matching is a rough stand-in for reading the answer
+        };
+    }
+
+    const expectedTerms = new Set(keywords(expected));
+    const covered = [...expectedTerms].filter(term => answerTerms.has(term));
+    const coverage = expectedTerms.size > 0 ? covered.length / expectedTerms.size : 0;
+    const isCorrect = coverage >= 0.3;
+    const missing = [...expectedTerms].filter(term => !answerTerms.has(term)).slice(0, 5);
+
+    return {
+        isCorrect,
+        explanation: isCorrect
+            ? `Good answer. You covered the key ideas (${covered.slice(0, 5).join(', ')}).`
+            : `Your answer misses some key ideas${missing.length > 0 ? ` such as ${missing.join(', ')}` : ''}. Reference: "${expected}"`,
+        misconception: isCorrect ? undefined : classifyMisconception(question, userAnswer, concept, allConcepts),
+        confidence: 0.6
+    };
+};
+
+const summarize = (concepts: Concept[]): string => {
+    if (concepts.length === 0) return "No concepts to summarize.";
+
+    const mastered = concepts.filter(c => c.masteryLevel === MasteryLevel.REASONING).length;
+    const byId = new Map(concepts.map(c => [c.id, c]));
+    const lines = [
+        '## Overview',
+        '',
+        `This study guide covers ${concepts.length} concepts, ${mastered} of them fully mastered.`,
+        '',
+        '## Concept Breakdown',
+    ];
+
+    for (const concept of concepts) {
+        const prerequisites = concept.dependencies.map(id => byId.get(id)?.title).filter(Boolean);
+        lines.push(
+            '',
+            `### ${concept.title}`,
+            '',
+            concept.description,
+            '',
+            `- **Mastery level:** ${concept.masteryLevel} of 4`,
+            `- **Builds on:** ${prerequisites.length > 0 ? prerequisites.join(', ') : 'nothing else in this session'}`
+        );
+    }
+
+    const mistakes = concepts.flatMap(c => c.mistakes.map(m => ({ concept: c.title, ...m })));
+    lines.push('', '## Common Mistakes and Corrections', '');
+    if (mistakes.length === 0) {
+        lines.push('No mistakes were recorded in this session.');
+    } else {
+        for (const mistake of mistakes) {
+            const label = isMisconceptionType(mistake.misunderstandingType) ? MISCONCEPTION_LABELS[mistake.misunderstandingType] : undefined;
+            lines.push(`- **${mistake.concept}${label ? ` (${label.toLowerCase()}${mistake.relatedConcept ? `: ${mistake.relatedConcept}` : ''})` : ''}:** ${mistake.question} - ${mistake.correction}`);
+        }
+    }
+
+    const nextSteps = concepts.filter(c => c.masteryLevel < MasteryLevel.REASONING).map(c => c.title);
+    lines.push(
+        '',
+        '## Summary and Next Steps',
+        '',
+        nextSteps.length > 0 ? `Review next: ${nextSteps.join(', ')}.` : 'Every concept is mastered. Revisit them periodically to keep them fresh.'
+    );
+
+    return lines.join('\n');
+};
+
+/**
+ * Builds a mock provider; latency and failures are configured by the caller
+ * (environment variables on the server, Vite variables in the browser)
+ */
+export const createMockProvider = (settings: MockAISettings, isConfigured: () => boolean = () => true): AIProvider => ({
+    id: 'mock',
+    label: 'Mock (offline)',
+    models: [MOCK_MODEL],
+    defaultModel: MOCK_MODEL,
+    isConfigured,
+    extractConceptsFromContent: async (segments, knownConcepts, options) => {
+        await simulate(settings, 'extract', segments.map(s => s.text).join('\n'));
+        const concepts = extractConcepts(segments, knownConcepts);
+        reportUsage(options, segments, concepts);
+        return concepts;
+    },
+    generateQuestion: async (concept, allConcepts, askedQuestions = [], options) => {
+        await simulate(settings, 'question', `${concept.id}:${concept.masteryLevel}:${concept.mistakes.length}:${askedQuestions.length}`);
+        let question = buildQuestion(concept, allConcepts);
+        for (let variant = concept.mistakes.length + 1; variant < concept.mistakes.length + MAX_QUESTION_VARIANTS && isNearDuplicateQuestion(question.text, askedQuestions); variant++) {
+            question = buildQuestion(concept, allConcepts, variant);
+        }
+        reportUsage(options, concept, question);
+        return question;
+    },
+    evaluateAnswer: async (question, userAnswer, concept, allConcepts, passThreshold, options) => {
+        await simulate(settings, 'evaluate', `${question.id}:${userAnswer}`);
+        const assessment = evaluate(question, userAnswer, concept, allConcepts, passThreshold);
+        reportUsage(options, { question, userAnswer }, assessment);
+        return assessment;
+    },
+    generateUnifiedSummary: async (concepts, options) => {
+        await simulate(settings, 'summary', concepts.map(c => c.id).join(','));
+        const summary = summarize(concepts);
+        reportUsage(options, concepts, summary);
+        return summary;
+    },
+    async *streamUnifiedSummary(concepts, options) {
+        await simulate(settings, 'summary', concepts.map(c => c.id).join(','));
+        const summary = summarize(concepts);
+        const words = summary.match(/\S+\s*/g) || [];
+        for (let i = 0; i < words.length; i += STREAM_WORDS_PER_CHUNK) {
+            if (options?.signal?.aborted) throw new Error('Mock summary stream cancelled');
+            if (settings.latencyMs > 0) await sleep(STREAM_CHUNK_DELAY_MS);
+            yield words.slice(i, i + STREAM_WORDS_PER_CHUNK).join('');
+        }
+        reportUsage(options, concepts, summary);
+    },
+});
+
+/**
+ * Parses a comma-separated operation list such as "question,evaluate"
+ */
+export const parseMockOperations = (value: string | undefined): AIOperation[] =>
+    (value || '').split(',').map(item => item.trim()).filter((item): item is AIOperation =>
+        ['extract', 'question', 'evaluate', 'summary'].includes(item));
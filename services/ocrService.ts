@@ -0,0 +1,55 @@
+/**
+ * OCR Service
+ *
+ * Local text recognition for scanned PDFs and photos, using tesseract.js.
+ * The worker, WASM core and English language data are bundled with the app,
+ * so no image or text ever leaves the browser.
+ */
+
+import { createWorker, OEM } from 'tesseract.js';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+// Mean word confidence (0-100) below which recognized text should not be trusted without review
+export const LOW_OCR_CONFIDENCE = 60;
+
+export interface OcrResult {
+    text: string;
+    confidence: number; // 0-100
+}
+
+/**
+ * Recognize the text of several images with one worker, in order.
+ * Images can be data URLs, object URLs or Blobs.
+ */
+export const recognizeImages = async (
+    images: (string | Blob)[],
+    onProgress?: (completed: number, total: number) => void
+): Promise<OcrResult[]> => {
+    const languageData = new Uint8Array(await (await fetch(englishDataUrl)).arrayBuffer());
+
+    const worker = await createWorker([{ code: 'eng', data: languageData }], OEM.LSTM_ONLY, {
+        workerPath: tesseractWorkerUrl,
+        corePath: tesseractCoreUrl,
+        workerBlobURL: false,
+    });
+
+    try {
+        const results: OcrResult[] = [];
+        onProgress?.(0, images.length);
+
+        for (const image of images) {
+            const { data } = await worker.recognize(image);
+            results.push({
+                text: data.text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim(),
+                confidence: Math.round(data.confidence),
+            });
+            onProgress?.(results.length, images.length);
+        }
+
+        return results;
+    } finally {
+        await worker.terminate();
+    }
+};
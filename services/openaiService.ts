@@ -1,61 +1,125 @@
 import OpenAI from 'openai';
-import { Concept, MasteryLevel, Question, QuestionType, AssessmentResult } from "../types";
+import { Concept, MasteryLevel, Question, AssessmentResult, SourceSegment } from "../types";
+import { AICallOptions, AIOperation, AIProvider } from "./aiProvider";
+import { resolveSourceReferences } from "./sourceSegments";
+import { evaluatePromptVars, questionPromptVars, renderPrompt, RenderedPrompt } from "./promptTemplates";
+import { JSON_ONLY_INSTRUCTION, parseJsonResponse } from "./jsonResponse";
+import { AIValidationError, createAssessmentValidator, RepairRequest, requestValidated, validateConceptEnvelope, validateQuestion } from "./aiSchemas";
 
-const apiKey = import.meta.env.VITE_OPENAI_API_KEY || '';
-
-if (!apiKey) {
-    console.error('VITE_OPENAI_API_KEY is not set in environment variables');
+/**
+ * Anything that speaks the OpenAI chat completions API: OpenAI itself, or a
+ * self-hosted server such as Ollama, llama.cpp or vLLM.
+ */
+export interface OpenAICompatibleBackend {
+    id: string;
+    label: string;
+    getClient: () => OpenAI;
+    isConfigured: () => boolean;
+    getModels: () => string[];
+    getModel: (operation: AIOperation) => string;
+    // 'native' sends response_format; 'auto' retries with prompt-only JSON when that fails; 'prompt' never sends it
+    jsonMode: 'native' | 'auto' | 'prompt';
 }
 
-const openai = new OpenAI({
-    apiKey,
-    dangerouslyAllowBrowser: true // Required for browser usage
-});
+type ChatMessages = OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+
+type UsageListener = AICallOptions['onUsage'];
+
+const reportUsage = (usage: OpenAI.CompletionUsage | null | undefined, onUsage: UsageListener) => {
+    if (usage) onUsage?.({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens });
+};
+
+const requestText = async (
+    backend: OpenAICompatibleBackend,
+    model: string,
+    messages: ChatMessages,
+    temperature: number,
+    onUsage: UsageListener,
+    jsonFormat = false
+) => {
+    const response = await backend.getClient().chat.completions.create({
+        model,
+        messages,
+        ...(jsonFormat ? { response_format: { type: "json_object" as const } } : {}),
+        temperature
+    });
+    reportUsage(response.usage, onUsage);
+    const text = response.choices[0]?.message?.content;
+    if (!text) throw new Error("Empty response");
+    return text;
+};
 
 /**
- * Extracts concepts from raw text content using OpenAI.
+ * Requests a JSON answer as text, falling back to prompt-side JSON instructions for models
+ * that reject `response_format` or return unparseable output in JSON mode.
+ * On a repair attempt the previous answer and the validation errors are appended to the conversation.
  */
-export const extractConceptsFromContent = async (content: string): Promise<Concept[]> => {
-    if (!content.trim()) return [];
+const requestJsonText = async (
+    backend: OpenAICompatibleBackend,
+    model: string,
+    messages: ChatMessages,
+    temperature: number,
+    onUsage: UsageListener,
+    repair?: RepairRequest
+) => {
+    const conversation: ChatMessages = repair
+        ? [...messages, { role: "assistant", content: repair.previousResponse }, { role: "user", content: repair.instruction }]
+        : messages;
+
+    if (backend.jsonMode !== 'prompt') {
+        try {
+            const text = await requestText(backend, model, conversation, temperature, onUsage, true);
+            if (backend.jsonMode === 'native') return text;
+            parseJsonResponse(text);
+            return text;
+        } catch (error) {
+            if (backend.jsonMode === 'native') throw error;
+            console.warn(`${backend.label} JSON mode failed, retrying with prompt-only JSON:`, (error as Error).message);
+        }
+    }
 
-    const systemPrompt = `You are an expert curriculum designer. 
-Analyze the provided learning material and extract a structured Concept Graph.
-Focus on key concepts, not trivial details. 
-Identify dependencies (which concepts must be understood before others).
-Return a JSON array of concepts with this exact structure:
-[{
-  "id": "unique-slug-identifier",
-  "title": "Concept Title",
-  "description": "A concise definition",
-  "dependencies": ["array-of-prerequisite-concept-ids"]
-}]`;
+    const [system, ...rest] = conversation;
+    const promptOnly: ChatMessages = [{ role: "system", content: `${system.content}${JSON_ONLY_INSTRUCTION}` }, ...rest];
+    return requestText(backend, model, promptOnly, temperature, onUsage);
+};
 
-    try {
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: content }
-            ],
-            response_format: { type: "json_object" },
-            temperature: 0.7
-        });
+// The output format goes into the system prompt, since OpenAI-compatible backends cannot enforce a schema
+const toMessages = (prompt: RenderedPrompt): ChatMessages => [
+    { role: "system", content: prompt.outputFormat ? `${prompt.system}\n\n${prompt.outputFormat}` : prompt.system },
+    { role: "user", content: prompt.user }
+];
 
-        const text = response.choices[0]?.message?.content;
-        if (text) {
-            const parsed = JSON.parse(text);
-            // Handle both array and object with concepts array
-            const concepts = Array.isArray(parsed) ? parsed : (parsed.concepts || []);
+/**
+ * Extracts concepts from segmented source material using an OpenAI-compatible backend.
+ * Concepts from earlier chunks are passed in so IDs stay consistent across chunks.
+ */
+const extractConceptsFromContent = async (
+    backend: OpenAICompatibleBackend,
+    segments: SourceSegment[],
+    knownConcepts: Concept[] = [],
+    options: AICallOptions = {}
+): Promise<Concept[]> => {
+    if (segments.length === 0) return [];
 
-            return concepts.map((c: any) => ({
-                ...c,
-                masteryLevel: MasteryLevel.LOCKED,
-                mistakes: []
-            }));
-        }
-        return [];
+    const prompt = renderPrompt('extract', { segments, knownConcepts });
+    const messages = toMessages(prompt);
+
+    try {
+        const concepts = await requestValidated(
+            'extract',
+            repair => requestJsonText(backend, options.model || backend.getModel('extract'), messages, prompt.temperature, options.onUsage, repair),
+            validateConceptEnvelope
+        );
+
+        return concepts.map(c => ({
+            ...c,
+            sources: resolveSourceReferences(c.sources, segments),
+            masteryLevel: MasteryLevel.LOCKED,
+            mistakes: []
+        }));
     } catch (error) {
-        console.error("OpenAI Extraction Error:", error);
+        console.error(`${backend.label} Extraction Error:`, error);
+        if (error instanceof AIValidationError) throw error;
         throw new Error("Failed to extract concepts.");
     }
 };
@@ -63,197 +127,150 @@ Return a JSON array of concepts with this exact structure:
 /**
  * Generates a question based on the concept and current mastery level.
  */
-export const generateQuestion = async (concept: Concept, allConcepts: Concept[]): Promise<Question> => {
-    const currentLevel = concept.masteryLevel === MasteryLevel.LOCKED ? 1 : concept.masteryLevel;
-
-    const relatedConcepts = allConcepts
-        .filter(c => concept.dependencies.includes(c.id) || c.dependencies.includes(concept.id))
-        .map(c => c.title)
-        .join(", ");
-
-    const systemPrompt = `You are an expert educator creating assessment questions.
-
-Level 1 (Recognition): Multiple choice. Focus on definition or basic identification.
-Level 2 (Understanding): Short answer. Ask to explain in own words or fill in the gap.
-Level 3 (Application): Scenario based. Apply the concept to a new situation.
-Level 4 (Reasoning): Complex open reasoning. Compare/contrast or discuss trade-offs.
-
-Return JSON with this exact structure:
-{
-  "text": "The question text",
-  "type": "MULTIPLE_CHOICE" | "SHORT_ANSWER" | "SCENARIO" | "OPEN_REASONING",
-  "options": ["option1", "option2", "option3", "option4"] (only for MULTIPLE_CHOICE, null otherwise),
-  "correctAnswerContext": "The correct answer or key points to check against"
-}`;
-
-    const userPrompt = `Generate a Level ${currentLevel} assessment question for the concept: "${concept.title}".
-Definition: ${concept.description}.
-Related concepts: ${relatedConcepts}.`;
+const generateQuestion = async (
+    backend: OpenAICompatibleBackend,
+    concept: Concept,
+    allConcepts: Concept[],
+    askedQuestions: string[] = [],
+    options: AICallOptions = {}
+): Promise<Question> => {
+    const prompt = renderPrompt('question', questionPromptVars(concept, allConcepts, askedQuestions));
+    const messages = toMessages(prompt);
 
     try {
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            response_format: { type: "json_object" },
-            temperature: 0.8
-        });
+        const data = await requestValidated(
+            'question',
+            repair => requestJsonText(backend, options.model || backend.getModel('question'), messages, prompt.temperature, options.onUsage, repair),
+            validateQuestion
+        );
 
-        const text = response.choices[0]?.message?.content;
-        if (text) {
-            const data = JSON.parse(text);
-            return {
-                id: crypto.randomUUID(),
-                conceptId: concept.id,
-                ...data
-            };
-        }
-        throw new Error("Empty response");
-    } catch (error) {
-        console.error("Question Generation Error:", error);
-        // Fallback question
         return {
-            id: "error",
+            id: crypto.randomUUID(),
             conceptId: concept.id,
-            text: "Explain the concept of " + concept.title,
-            type: QuestionType.SHORT_ANSWER,
-            correctAnswerContext: concept.description
+            ...data
         };
+    } catch (error) {
+        console.error("Question Generation Error:", error);
+        if (error instanceof AIValidationError) throw error;
+        throw new Error("Failed to generate question.");
     }
 };
 
 /**
- * Evaluates the user's answer using OpenAI.
+ * Evaluates the user's answer using an OpenAI-compatible backend.
  */
-export const evaluateAnswer = async (
+const evaluateAnswer = async (
+    backend: OpenAICompatibleBackend,
     question: Question,
     userAnswer: string,
-    concept: Concept
+    concept: Concept,
+    allConcepts: Concept[],
+    passThreshold: number,
+    options: AICallOptions = {}
 ): Promise<AssessmentResult> => {
-
-    const systemPrompt = `You are a supportive, intelligent tutor. 
-Evaluate the student's answer based on the provided context.
-NEVER strictly say "Wrong". Instead, identify misunderstandings.
-If the answer is incorrect, explain WHY and provide the correct reasoning.
-If correct, reinforce the key insight.
-
-Current Mastery Level Target: ${concept.masteryLevel || 1}
-
-Return JSON with this exact structure:
-{
-  "isCorrect": true/false,
-  "explanation": "Constructive feedback"
-}`;
-
-    const userPrompt = `Question: ${question.text}
-Context/Correct Answer: ${question.correctAnswerContext}
-Student Answer: ${userAnswer}
-
-Determine if the student has demonstrated sufficient understanding to pass this specific check.`;
+    const prompt = renderPrompt('evaluate', evaluatePromptVars(question, userAnswer, concept, allConcepts, passThreshold));
+    const messages = toMessages(prompt);
 
     try {
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            response_format: { type: "json_object" },
-            temperature: 0.3
-        });
-
-        const text = response.choices[0]?.message?.content;
-        if (text) {
-            return JSON.parse(text);
-        }
-        throw new Error("Evaluation failed");
+        return await requestValidated(
+            'evaluate',
+            repair => requestJsonText(backend, options.model || backend.getModel('evaluate'), messages, prompt.temperature, options.onUsage, repair),
+            createAssessmentValidator(question.rubric, passThreshold)
+        );
     } catch (error) {
         console.error("Evaluation Error:", error);
-        return { isCorrect: false, explanation: "An error occurred during evaluation. Please try again." };
+        if (error instanceof AIValidationError) throw error;
+        throw new Error("Failed to evaluate answer.");
     }
 };
 
+// Emojis that might slip through despite the prompt
+const EMOJI_PATTERN = /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu;
+
 /**
- * Generates a unified summary of the session using OpenAI.
+ * Generates a unified summary of the session using an OpenAI-compatible backend.
  */
-export const generateUnifiedSummary = async (concepts: Concept[]): Promise<string> => {
+const generateUnifiedSummary = async (
+    backend: OpenAICompatibleBackend,
+    concepts: Concept[],
+    options: AICallOptions = {}
+): Promise<string> => {
     if (concepts.length === 0) return "No concepts to summarize.";
 
-    const conceptData = concepts.map(c => ({
-        title: c.title,
-        description: c.description,
-        masteryLevel: c.masteryLevel,
-        dependencies: c.dependencies,
-        mistakes: c.mistakes.map(m => ({
-            question: m.question,
-            userAnswer: m.userAnswer,
-            correction: m.correction,
-            type: m.misunderstandingType
-        }))
-    }));
-
-    const systemPrompt = `You are an expert educational content writer creating professional study notes.
-
-CRITICAL RULES:
-- NO EMOJIS whatsoever
-- Use clear, professional language
-- Create well-structured, hierarchical content
-- Use proper markdown formatting
-- Include specific examples and explanations
-- Make content scannable with headers and lists`;
-
-    const userPrompt = `Generate a comprehensive, professional study guide in Markdown format based on these learned concepts.
-
-Structure the document as follows:
-
-1. OVERVIEW
-   - Brief introduction to the topic
-   - Key learning objectives
-   - Total concepts covered
-
-2. CONCEPT BREAKDOWN
-   - For each concept, provide:
-     * Clear definition
-     * Detailed explanation
-     * Key points (as bullet lists)
-     * Relationships to other concepts
-     * Mastery level achieved
-
-3. COMMON MISTAKES AND CORRECTIONS
-   - Document specific mistakes made during learning
-   - Provide clear corrections and explanations
-   - Highlight common pitfalls to avoid
+    try {
+        const prompt = renderPrompt('summary', { concepts });
+        const summary = await requestText(backend, options.model || backend.getModel('summary'), toMessages(prompt), prompt.temperature, options.onUsage);
+        return summary.replace(EMOJI_PATTERN, '');
+    } catch (e) {
+        console.error('Summary generation error:', e);
+        throw new Error("Failed to generate summary.");
+    }
+};
 
-4. SUMMARY AND NEXT STEPS
-   - Recap key takeaways
-   - Suggest areas for further study
-   - Provide practice recommendations
+/**
+ * Streams the unified summary as the model writes it.
+ * Errors, including cancellation through `options.signal`, propagate to the consumer.
+ */
+async function* streamUnifiedSummary(
+    backend: OpenAICompatibleBackend,
+    concepts: Concept[],
+    options: AICallOptions = {}
+): AsyncGenerator<string> {
+    if (concepts.length === 0) {
+        yield "No concepts to summarize.";
+        return;
+    }
 
-Concept Data:
-${JSON.stringify(conceptData, null, 2)}
+    const prompt = renderPrompt('summary', { concepts });
+    const stream = await backend.getClient().chat.completions.create({
+        model: options.model || backend.getModel('summary'),
+        messages: toMessages(prompt),
+        temperature: prompt.temperature,
+        stream: true,
+        stream_options: { include_usage: true }
+    }, { signal: options.signal });
+
+    for await (const chunk of stream) {
+        // The usage chunk comes last and has no choices
+        reportUsage(chunk.usage, options.onUsage);
+        const text = chunk.choices[0]?.delta?.content?.replace(EMOJI_PATTERN, '');
+        if (text) yield text;
+    }
+}
 
-Remember: NO EMOJIS. Professional formatting only. Use markdown headers (##, ###), bullet points, and bold text for emphasis.`;
+/**
+ * Builds an AIProvider on top of any OpenAI-compatible backend
+ */
+export const createOpenAICompatibleProvider = (backend: OpenAICompatibleBackend): AIProvider => ({
+    id: backend.id,
+    label: backend.label,
+    // Read lazily: local backends take their models from the environment
+    get models() { return backend.getModels(); },
+    get defaultModel() { return backend.getModel('question'); },
+    modelForOperation: backend.getModel,
+    isConfigured: backend.isConfigured,
+    extractConceptsFromContent: (segments, knownConcepts, options) => extractConceptsFromContent(backend, segments, knownConcepts, options),
+    generateQuestion: (concept, allConcepts, askedQuestions, options) => generateQuestion(backend, concept, allConcepts, askedQuestions, options),
+    evaluateAnswer: (question, userAnswer, concept, allConcepts, passThreshold, options) =>
+        evaluateAnswer(backend, question, userAnswer, concept, allConcepts, passThreshold, options),
+    generateUnifiedSummary: (concepts, options) => generateUnifiedSummary(backend, concepts, options),
+    streamUnifiedSummary: (concepts, options) => streamUnifiedSummary(backend, concepts, options),
+});
 
-    try {
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            temperature: 0.7
-        });
+const DEFAULT_MODEL = "gpt-4o-mini";
 
-        let summary = response.choices[0]?.message?.content || "# Summary\n\nCould not generate summary.";
+// Server-only: the key is read from the gateway's environment and never bundled into the client
+const getApiKey = () => process.env.OPENAI_API_KEY || '';
 
-        // Remove any emojis that might have slipped through
-        summary = summary.replace(/[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu, '');
+let client: OpenAI | null = null;
 
-        return summary;
-    } catch (e) {
-        console.error('Summary generation error:', e);
-        return "# Error\n\nFailed to generate summary.";
-    }
-};
+export const openaiProvider = createOpenAICompatibleProvider({
+    id: 'openai',
+    label: 'OpenAI',
+    // Created on first use so an unconfigured provider can still be registered
+    getClient: () => client ??= new OpenAI({ apiKey: getApiKey() }),
+    isConfigured: () => getApiKey().length > 5,
+    getModels: () => [DEFAULT_MODEL, 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+    getModel: () => DEFAULT_MODEL,
+    jsonMode: 'native',
+});
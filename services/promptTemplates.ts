@@ -0,0 +1,295 @@
+/**
+ * Prompt Templates
+ *
+ * The single source of every prompt sent to a model. Each operation has a named,
+ * versioned template with typed variables that every provider renders, so wording
+ * and temperature cannot drift between providers. A result records the version of
+ * the template that produced it (see `GeneratedBy.promptVersion`), and the version
+ * is part of every cache key.
+ *
+ * Change a template's wording or temperature only together with its version.
+ */
+
+import { Concept, MasteryLevel, Question, RubricCriterion, SourceSegment } from "../types";
+import { AIOperation } from "./aiProvider";
+import { formatSegmentsForPrompt } from "./sourceSegments";
+import { formatKnownConceptsForPrompt } from "./conceptChunking";
+import { formatPercent } from "./grading";
+
+export interface ExtractPromptVars {
+    segments: SourceSegment[];
+    knownConcepts: Concept[]; // Concepts from earlier chunks, so IDs stay consistent
+}
+
+export interface QuestionPromptVars {
+    level: number;
+    title: string;
+    description: string;
+    relatedTitles: string[]; // Prerequisites and dependents of the concept
+    askedQuestions: string[]; // Questions the student has already seen, most recent last
+}
+
+export interface EvaluatePromptVars {
+    level: number;
+    question: string;
+    correctAnswerContext: string;
+    userAnswer: string;
+    rubric: RubricCriterion[]; // Empty for questions generated before rubrics existed
+    passThreshold: number; // Weighted rubric score (0-1) an answer needs to pass
+    title: string;
+    prerequisiteTitles: string[];
+    otherTitles: string[]; // The rest of the session's concepts, for naming a confusion
+}
+
+export interface SummaryPromptVars {
+    concepts: Concept[];
+}
+
+export interface PromptVars {
+    extract: ExtractPromptVars;
+    question: QuestionPromptVars;
+    evaluate: EvaluatePromptVars;
+    summary: SummaryPromptVars;
+}
+
+export interface PromptTemplate<V> {
+    version: number;
+    temperature: number;
+    system: (vars: V) => string;
+    user: (vars: V) => string;
+    // JSON structure spelled out in the prompt, for providers that cannot enforce a response schema
+    outputFormat?: string;
+}
+
+export interface RenderedPrompt {
+    promptVersion: string; // e.g. "question@1"
+    system: string;
+    user: string;
+    temperature: number;
+    outputFormat?: string;
+}
+
+// Only the most recent asked questions go into the prompt, to bound its length
+const MAX_ASKED_QUESTIONS_IN_PROMPT = 10;
+
+const MASTERY_LEVEL_GUIDE = `Level 1 (Recognition): Multiple choice. Focus on definition or basic identification.
+Level 2 (Understanding): Short answer. Ask to explain in own words or fill in the gap.
+Level 3 (Application): Scenario based. Apply the concept to a new situation.
+Level 4 (Reasoning): Complex open reasoning. Compare/contrast or discuss trade-offs.`;
+
+const MISCONCEPTION_GUIDE = `- CONFUSED_WITH_OTHER_CONCEPT: describes or applies a different concept instead of this one
+- MISSING_PREREQUISITE: the mistake comes from not understanding a concept this one builds on
+- PARTIAL_DEFINITION: on the right track, but incomplete or imprecise
+- PROCEDURAL_ERROR: knows what the concept is, but applies it or its steps incorrectly
+- MISREAD_QUESTION: answers a different question than the one asked`;
+
+const extractTemplate: PromptTemplate<ExtractPromptVars> = {
+    version: 1,
+    temperature: 0.7,
+    system: () => `You are an expert curriculum designer.
+Analyze the provided learning material and extract a structured Concept Graph.
+Focus on key concepts, not trivial details.
+Identify dependencies (which concepts must be understood before others).
+The material is split into segments tagged like [S1]. For each concept, cite the segments
+that explain it and quote a short excerpt (one or two sentences, copied verbatim) from each.`,
+    user: ({ segments, knownConcepts }) => formatSegmentsForPrompt(segments) + formatKnownConceptsForPrompt(knownConcepts),
+    outputFormat: `Return a JSON object with this exact structure:
+{
+  "concepts": [{
+    "id": "unique-slug-identifier",
+    "title": "Concept Title",
+    "description": "A concise definition",
+    "dependencies": ["array-of-prerequisite-concept-ids"],
+    "sources": [{ "segmentId": "S3", "excerpt": "Short verbatim quote from that segment" }]
+  }]
+}`,
+};
+
+const questionTemplate: PromptTemplate<QuestionPromptVars> = {
+    version: 3,
+    temperature: 0.8,
+    system: () => `You are an expert educator creating assessment questions.
+
+${MASTERY_LEVEL_GUIDE}
+
+Write a grading rubric for every question: the key points a complete answer makes,
+each with a weight for how much it matters (higher is more important).
+A multiple choice question needs only one criterion: choosing the correct option.`,
+    user: ({ level, title, description, relatedTitles, askedQuestions }) => `Generate a Level ${level} assessment question for the concept: "${title}".
+Definition: ${description}.
+Related concepts: ${relatedTitles.join(", ") || "none"}.${askedQuestions.length > 0 ? `
+
+The student has already been asked these questions. Ask something different, not a rephrasing of any of them:
+${askedQuestions.map(q => `- ${q}`).join("\n")}` : ""}`,
+    outputFormat: `Return JSON with this exact structure:
+{
+  "text": "The question text",
+  "type": "MULTIPLE_CHOICE" | "SHORT_ANSWER" | "SCENARIO" | "OPEN_REASONING",
+  "options": ["option1", "option2", "option3", "option4"] (only for MULTIPLE_CHOICE, null otherwise),
+  "correctAnswerContext": "The correct answer or key points to check against",
+  "rubric": [{ "description": "A key point a complete answer makes", "weight": 2 }] (1 to 6 criteria)
+}`,
+};
+
+const evaluateTemplate: PromptTemplate<EvaluatePromptVars> = {
+    version: 4,
+    temperature: 0.3,
+    system: ({ level }) => `You are a supportive, intelligent tutor.
+Evaluate the student's answer based on the provided context.
+NEVER strictly say "Wrong". Instead, identify misunderstandings.
+If the answer is incorrect, explain WHY and provide the correct reasoning.
+If correct, reinforce the key insight.
+
+If the answer is incorrect, classify the main misconception as exactly one of:
+${MISCONCEPTION_GUIDE}
+For CONFUSED_WITH_OTHER_CONCEPT and MISSING_PREREQUISITE, name the concept involved, using its title from the lists given.
+
+When a rubric is given, score every criterion from 0 (not addressed) to 1 (fully made),
+giving partial credit for points made incompletely, with a short comment on each.
+The answer passes (isCorrect true) exactly when the weight-averaged criterion score reaches
+the pass threshold; write the feedback and classify the misconception for that verdict.
+Also state your confidence in the grading from 0 to 1: lower it when the answer is ambiguous
+or the rubric does not fit the answer well.
+
+Current Mastery Level Target: ${level}`,
+    user: ({ question, correctAnswerContext, userAnswer, rubric, passThreshold, title, prerequisiteTitles, otherTitles }) => `Concept being tested: ${title}
+Prerequisites: ${prerequisiteTitles.join(", ") || "none"}
+Other concepts in this session: ${otherTitles.join(", ") || "none"}
+
+Question: ${question}
+Context/Correct Answer: ${correctAnswerContext}${rubric.length > 0 ? `
+Rubric:
+${rubric.map(c => `- ${c.id} (weight ${c.weight}): ${c.description}`).join("\n")}
+Pass threshold: ${formatPercent(passThreshold)} of the weighted score` : ""}
+Student Answer: ${userAnswer}
+
+Determine if the student has demonstrated sufficient understanding to pass this specific check.`,
+    outputFormat: `Return JSON with this exact structure:
+{
+  "isCorrect": true/false (with a rubric: whether the weighted score reaches the pass threshold),
+  "explanation": "Constructive feedback",
+  "criteria": [{ "id": "k1", "score": 0.5, "comment": "What the answer said about this point" }] (one per rubric criterion, [] without a rubric),
+  "confidence": 0.8,
+  "misconception": {
+    "type": "CONFUSED_WITH_OTHER_CONCEPT" | "MISSING_PREREQUISITE" | "PARTIAL_DEFINITION" | "PROCEDURAL_ERROR" | "MISREAD_QUESTION",
+    "concept": "Title of the concept involved, or null"
+  } (only when isCorrect is false, null otherwise)
+}`,
+};
+
+const summaryTemplate: PromptTemplate<SummaryPromptVars> = {
+    version: 2,
+    temperature: 0.7,
+    system: () => `You are an expert educational content writer creating professional study notes.
+
+CRITICAL RULES:
+- NO EMOJIS whatsoever
+- Use clear, professional language
+- Create well-structured, hierarchical content
+- Use proper markdown formatting
+- Include specific examples and explanations
+- Make content scannable with headers and lists`,
+    user: ({ concepts }) => {
+        const conceptData = concepts.map(c => ({
+            title: c.title,
+            description: c.description,
+            masteryLevel: c.masteryLevel,
+            dependencies: c.dependencies,
+            mistakes: c.mistakes.map(m => ({
+                question: m.question,
+                userAnswer: m.userAnswer,
+                correction: m.correction,
+                type: m.misunderstandingType,
+                relatedConcept: m.relatedConcept
+            }))
+        }));
+
+        return `Generate a comprehensive, professional study guide in Markdown format based on these learned concepts.
+
+Structure the document as follows:
+
+1. OVERVIEW
+   - Brief introduction to the topic
+   - Key learning objectives
+   - Total concepts covered
+
+2. CONCEPT BREAKDOWN
+   - For each concept, provide:
+     * Clear definition
+     * Detailed explanation
+     * Key points (as bullet lists)
+     * Relationships to other concepts
+     * Mastery level achieved
+
+3. COMMON MISTAKES AND CORRECTIONS
+   - Document specific mistakes made during learning
+   - Provide clear corrections and explanations
+   - Group recurring mistakes by their misconception type and the concept involved
+   - Highlight common pitfalls to avoid
+
+4. SUMMARY AND NEXT STEPS
+   - Recap key takeaways
+   - Suggest areas for further study
+   - Provide practice recommendations
+
+Concept Data:
+${JSON.stringify(conceptData, null, 2)}
+
+Remember: NO EMOJIS. Professional formatting only. Use markdown headers (##, ###), bullet points, and bold text for emphasis.`;
+    },
+};
+
+export const PROMPT_TEMPLATES: { [K in AIOperation]: PromptTemplate<PromptVars[K]> } = {
+    extract: extractTemplate,
+    question: questionTemplate,
+    evaluate: evaluateTemplate,
+    summary: summaryTemplate,
+};
+
+/**
+ * Name and version of the template an operation currently uses, e.g. "question@2"
+ */
+export const getPromptVersion = (operation: AIOperation): string =>
+    `${operation}@${PROMPT_TEMPLATES[operation].version}`;
+
+export const renderPrompt = <K extends AIOperation>(operation: K, vars: PromptVars[K]): RenderedPrompt => {
+    const template = PROMPT_TEMPLATES[operation] as PromptTemplate<PromptVars[K]>;
+    return {
+        promptVersion: getPromptVersion(operation),
+        system: template.system(vars),
+        user: template.user(vars),
+        temperature: template.temperature,
+        outputFormat: template.outputFormat,
+    };
+};
+
+/**
+ * Question variables for a concept; a locked concept is asked about at level 1
+ */
+export const questionPromptVars = (concept: Concept, allConcepts: Concept[], askedQuestions: string[] = []): QuestionPromptVars => ({
+    level: concept.masteryLevel === MasteryLevel.LOCKED ? 1 : concept.masteryLevel,
+    title: concept.title,
+    description: concept.description,
+    relatedTitles: allConcepts
+        .filter(c => concept.dependencies.includes(c.id) || c.dependencies.includes(concept.id))
+        .map(c => c.title),
+    askedQuestions: askedQuestions.slice(-MAX_ASKED_QUESTIONS_IN_PROMPT),
+});
+
+export const evaluatePromptVars = (
+    question: Question,
+    userAnswer: string,
+    concept: Concept,
+    allConcepts: Concept[],
+    passThreshold: number
+): EvaluatePromptVars => ({
+    level: concept.masteryLevel || 1,
+    question: question.text,
+    correctAnswerContext: question.correctAnswerContext,
+    userAnswer,
+    rubric: question.rubric ?? [],
+    passThreshold,
+    title: concept.title,
+    prerequisiteTitles: allConcepts.filter(c => concept.dependencies.includes(c.id)).map(c => c.title),
+    otherTitles: allConcepts.filter(c => c.id !== concept.id && !concept.dependencies.includes(c.id)).map(c => c.title),
+});
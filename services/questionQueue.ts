@@ -0,0 +1,86 @@
+/**
+ * Question Queue
+ *
+ * Generates the next questions for a concept in the background while the learner
+ * answers the current one: one at the current level, in case the answer is wrong,
+ * and one at the next level, in case it is right. Questions that turn out to be
+ * near-duplicates of ones already asked are discarded when taken.
+ */
+
+import { Concept, MasteryLevel, Question } from "../types";
+import { generateQuestion } from "./aiService";
+import { isNearDuplicateQuestion } from "./questionSimilarity";
+
+// Fresh questions requested when the model keeps repeating an asked one
+const MAX_GENERATION_ATTEMPTS = 2;
+
+interface PendingQuestion {
+    conceptId: string;
+    level: MasteryLevel;
+    question: Promise<Question | null>; // null when the prefetch failed
+}
+
+export interface QuestionQueue {
+    // A question at the concept's current level: prefetched when possible, generated otherwise
+    next: (concept: Concept, allConcepts: Concept[], askedQuestions: string[]) => Promise<Question>;
+    // Starts generating whatever the next `next` call may need; `askedQuestions` should include the question on screen
+    prefetch: (concept: Concept, allConcepts: Concept[], askedQuestions: string[]) => void;
+}
+
+const questionLevel = (concept: Concept): MasteryLevel =>
+    concept.masteryLevel === MasteryLevel.LOCKED ? MasteryLevel.RECOGNITION : concept.masteryLevel;
+
+const generateAt = (concept: Concept, level: MasteryLevel, allConcepts: Concept[], askedQuestions: string[]) =>
+    generateQuestion({ ...concept, masteryLevel: level }, allConcepts, askedQuestions);
+
+/**
+ * A queue for one learning game. Prefetch failures are only logged: `next` then
+ * generates the question itself, so errors surface where the learner waits for it.
+ */
+export const createQuestionQueue = (): QuestionQueue => {
+    let pending: PendingQuestion[] = [];
+
+    const takePending = (conceptId: string, level: MasteryLevel) => {
+        const item = pending.find(p => p.conceptId === conceptId && p.level === level);
+        if (item) pending = pending.filter(p => p !== item);
+        return item;
+    };
+
+    // Questions for another concept, or below a level the concept has already passed, are never asked
+    const discardStale = (conceptId: string, level: MasteryLevel) => {
+        pending = pending.filter(p => p.conceptId === conceptId && p.level >= level);
+    };
+
+    return {
+        next: async (concept, allConcepts, askedQuestions) => {
+            const level = questionLevel(concept);
+            discardStale(concept.id, level);
+
+            for (let item = takePending(concept.id, level); item; item = takePending(concept.id, level)) {
+                const question = await item.question;
+                if (question && !isNearDuplicateQuestion(question.text, askedQuestions)) return question;
+            }
+
+            let question = await generateAt(concept, level, allConcepts, askedQuestions);
+            for (let attempt = 1; attempt < MAX_GENERATION_ATTEMPTS && isNearDuplicateQuestion(question.text, askedQuestions); attempt++) {
+                question = await generateAt(concept, level, allConcepts, askedQuestions);
+            }
+            return question;
+        },
+
+        prefetch: (concept, allConcepts, askedQuestions) => {
+            const level = questionLevel(concept);
+            const levels = level < MasteryLevel.REASONING ? [level, level + 1] : [level];
+            discardStale(concept.id, level);
+
+            for (const target of levels) {
+                if (pending.some(p => p.conceptId === concept.id && p.level === target)) continue;
+                const question = generateAt(concept, target, allConcepts, askedQuestions).catch(error => {
+                    console.warn('Question prefetch failed:', error);
+                    return null;
+                });
+                pending.push({ conceptId: concept.id, level: target, question });
+            }
+        },
+    };
+};
@@ -0,0 +1,38 @@
+/**
+ * Question Similarity
+ *
+ * Models rephrase rather than repeat, so asked questions are matched by the
+ * words they share instead of by exact text.
+ */
+
+// Words that carry no meaning for telling two questions apart
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'of', 'and', 'or', 'in', 'on', 'to', 'for', 'with', 'is', 'are', 'be',
+    'what', 'which', 'how', 'why', 'does', 'do', 'it', 'its', 'this', 'that', 'you', 'your',
+]);
+
+// Share of words two questions must have in common to count as the same question
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+const questionWords = (text: string): Set<string> => new Set(
+    text
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word && !STOP_WORDS.has(word))
+);
+
+/**
+ * Jaccard similarity of the two questions' words, from 0 (nothing shared) to 1
+ */
+export const questionSimilarity = (a: string, b: string): number => {
+    const wordsA = questionWords(a);
+    const wordsB = questionWords(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return a.trim() === b.trim() ? 1 : 0;
+
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    return shared / new Set([...wordsA, ...wordsB]).size;
+};
+
+export const isNearDuplicateQuestion = (text: string, askedQuestions: string[]): boolean =>
+    askedQuestions.some(asked => questionSimilarity(text, asked) >= NEAR_DUPLICATE_THRESHOLD);
@@ -0,0 +1,164 @@
+/**
+ * Source Segments
+ *
+ * Helpers that carry the structure of uploaded material through the AI layer,
+ * so every extracted concept can point back to the page, slide or moment it came from.
+ */
+
+import { SourceLocation, SourceReference, SourceSegment } from "../types";
+import type { ContentSegment, ProcessedContent } from "./fileProcessing";
+
+// Longest excerpt kept on a concept, in characters
+const MAX_EXCERPT_LENGTH = 280;
+
+// Longest segment handed to the AI layer; longer ones are split so chunking stays possible
+const MAX_SEGMENT_CHARS = 8000;
+
+/**
+ * Split an oversized segment at line breaks, keeping its location and shifting its caption timeline
+ */
+const splitOversizedSegment = (segment: ContentSegment): ContentSegment[] => {
+    if (segment.text.length <= MAX_SEGMENT_CHARS) return [segment];
+
+    const pieces: ContentSegment[] = [];
+    let start = 0;
+
+    while (start < segment.text.length) {
+        let end = Math.min(start + MAX_SEGMENT_CHARS, segment.text.length);
+        if (end < segment.text.length) {
+            const window = segment.text.slice(start, end);
+            const breakAt = Math.max(window.lastIndexOf('\n'), window.lastIndexOf('. '));
+            if (breakAt > MAX_SEGMENT_CHARS / 2) end = start + breakAt + 1;
+        }
+
+        const timeline = segment.timeline
+            ?.filter(cue => cue.charIndex >= start && cue.charIndex < end)
+            .map(cue => ({ ...cue, charIndex: cue.charIndex - start }));
+
+        pieces.push({
+            ...segment,
+            text: segment.text.slice(start, end).trimEnd(),
+            timeline,
+            timestampSeconds: timeline?.[0]?.timestampSeconds ?? segment.timestampSeconds,
+        });
+        start = end;
+        while (/\s/.test(segment.text[start] || '')) start++;
+    }
+
+    return pieces;
+};
+
+/**
+ * Turn processed uploads into numbered segments ('S1', 'S2'...) the model can cite
+ */
+export const toSourceSegments = (contents: ProcessedContent[]): SourceSegment[] => {
+    const segments: SourceSegment[] = [];
+
+    for (const content of contents) {
+        const sourceName = content.metadata?.title || 'Untitled source';
+        const sourceUrl = content.metadata?.url;
+        const parts = (content.segments?.length ? content.segments : [{ text: content.text }])
+            .flatMap(splitOversizedSegment);
+
+        for (const part of parts) {
+            if (!part.text.trim()) continue;
+            segments.push({ ...part, id: `S${segments.length + 1}`, sourceName, sourceUrl });
+        }
+    }
+
+    return segments;
+};
+
+/**
+ * Formats seconds as "m:ss", or "h:mm:ss" past the hour
+ */
+export const formatTimestamp = (totalSeconds: number): string => {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = Math.floor(totalSeconds % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+/**
+ * Human-readable location, e.g. "Lecture3.pdf, p. 14" or "Intro video, 12:05"
+ */
+export const formatSourceLocation = (location: SourceLocation & { sourceName: string }): string => {
+    const parts = [location.sourceName];
+
+    if (location.page !== undefined) parts.push(`p. ${location.page}`);
+    else if (location.slide !== undefined) parts.push(`slide ${location.slide}`);
+    else if (location.chapter !== undefined) parts.push(`ch. ${location.chapter}`);
+    else if (location.heading) parts.push(`"${location.heading}"`);
+
+    if (location.timestampSeconds !== undefined) parts.push(formatTimestamp(location.timestampSeconds));
+
+    return parts.join(', ');
+};
+
+/**
+ * Link that opens the source at the referenced spot, e.g. a YouTube video at the cited moment
+ */
+export const getSourceLink = (reference: SourceReference): string | undefined => {
+    if (!reference.sourceUrl) return undefined;
+    if (reference.timestampSeconds === undefined || !/youtube\.com\/watch\?v=/.test(reference.sourceUrl)) {
+        return reference.sourceUrl;
+    }
+    return `${reference.sourceUrl}&t=${Math.floor(reference.timestampSeconds)}s`;
+};
+
+/**
+ * Render segments as the user message of an extraction prompt, each tagged with its ID and location
+ */
+export const formatSegmentsForPrompt = (segments: SourceSegment[]): string => {
+    return segments
+        .map(segment => `[${segment.id}] (${formatSourceLocation(segment)})\n${segment.text}`)
+        .join('\n\n');
+};
+
+const normalizeForMatch = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Moment at which a quote is spoken in a video segment, falling back to the segment start
+ */
+const findQuoteTimestamp = (segment: SourceSegment, quote: string): number | undefined => {
+    if (!segment.timeline?.length) return segment.timestampSeconds;
+
+    const index = segment.text.toLowerCase().indexOf(quote.toLowerCase().replace(/\s+/g, ' '));
+    if (index < 0) return segment.timestampSeconds;
+
+    const cue = [...segment.timeline].reverse().find(c => c.charIndex <= index);
+    return cue?.timestampSeconds ?? segment.timestampSeconds;
+};
+
+/**
+ * Map the model's cited segment IDs back to full source references.
+ * Excerpts are only kept when they really occur in the cited segment;
+ * otherwise the start of the segment is quoted instead.
+ */
+export const resolveSourceReferences = (
+    citations: { segmentId?: string; excerpt?: string }[] | undefined,
+    segments: SourceSegment[]
+): SourceReference[] => {
+    if (!Array.isArray(citations)) return [];
+
+    const references: SourceReference[] = [];
+
+    for (const citation of citations) {
+        const segment = segments.find(s => s.id === citation.segmentId);
+        if (!segment) continue;
+
+        const quoted = citation.excerpt?.trim() || '';
+        const excerpt = quoted && normalizeForMatch(segment.text).includes(normalizeForMatch(quoted))
+            ? quoted
+            : segment.text.replace(/\s+/g, ' ').trim();
+
+        const { id, text, timeline, ...reference } = segment;
+        references.push({
+            ...reference,
+            timestampSeconds: findQuoteTimestamp(segment, excerpt),
+            excerpt: excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH).trimEnd()}…` : excerpt,
+        });
+    }
+
+    return references;
+};
@@ -0,0 +1,104 @@
+/**
+ * Spaced Repetition
+ *
+ * SM-2 review scheduling for mastered concepts. Each review moves the due date
+ * further out on success and back to tomorrow on a lapse. A concept whose review
+ * is overdue has a lower effective mastery than its stored level: one level for
+ * being overdue, and one more for every further interval that passes.
+ */
+
+import { Concept, MasteryLevel, ReviewSchedule } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+// SM-2 answer quality (0-5) for a correct and an incorrect review
+const CORRECT_QUALITY = 4;
+const INCORRECT_QUALITY = 1;
+// Older review records are dropped beyond this
+const MAX_HISTORY = 50;
+
+/**
+ * The schedule after one review; pass `undefined` to start scheduling a newly mastered concept
+ */
+export const scheduleReview = (
+    schedule: ReviewSchedule | undefined,
+    correct: boolean,
+    level: MasteryLevel,
+    now = Date.now()
+): ReviewSchedule => {
+    const quality = correct ? CORRECT_QUALITY : INCORRECT_QUALITY;
+    const previous = schedule ?? { easeFactor: INITIAL_EASE_FACTOR, intervalDays: 0, repetitions: 0, history: [] };
+
+    let repetitions = 0;
+    let intervalDays = 1;
+    if (correct) {
+        repetitions = previous.repetitions + 1;
+        intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.intervalDays * previous.easeFactor);
+    }
+
+    const easeFactor = Math.max(
+        MIN_EASE_FACTOR,
+        previous.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    return {
+        easeFactor,
+        intervalDays,
+        repetitions,
+        dueAt: now + intervalDays * DAY_MS,
+        lastReviewedAt: now,
+        history: [...previous.history, { timestamp: now, correct, level }].slice(-MAX_HISTORY),
+    };
+};
+
+/**
+ * Mastery after decay: the stored level while the review is not overdue, never below Recognition
+ */
+export const getEffectiveMastery = (concept: Concept, now = Date.now()): MasteryLevel => {
+    const review = concept.review;
+    if (!review || now <= review.dueAt || concept.masteryLevel === MasteryLevel.LOCKED) return concept.masteryLevel;
+
+    const overdueIntervals = Math.floor((now - review.dueAt) / (Math.max(1, review.intervalDays) * DAY_MS));
+    return Math.max(MasteryLevel.RECOGNITION, concept.masteryLevel - 1 - overdueIntervals);
+};
+
+// End of the local calendar day, so everything due "today" is included in the morning
+const endOfToday = (now: number) => {
+    const date = new Date(now);
+    date.setHours(23, 59, 59, 999);
+    return date.getTime();
+};
+
+export const isReviewDueToday = (concept: Concept, now = Date.now()): boolean =>
+    !!concept.review && concept.review.dueAt <= endOfToday(now);
+
+/**
+ * Applies the outcome of a review question. A failed review makes the decay permanent,
+ * so the concept has to be climbed back up from its effective level.
+ */
+export const applyReviewResult = (concept: Concept, correct: boolean, now = Date.now()): Concept => {
+    const effectiveLevel = getEffectiveMastery(concept, now);
+    return {
+        ...concept,
+        masteryLevel: correct ? concept.masteryLevel : effectiveLevel,
+        review: scheduleReview(concept.review, correct, effectiveLevel, now),
+    };
+};
+
+export interface DueReview {
+    sessionId: string;
+    conceptId: string;
+    dueAt: number;
+}
+
+/**
+ * Concepts due for review today across sessions, most overdue first
+ */
+export const getDueReviews = (sessions: { id: string; concepts: Concept[] }[], now = Date.now()): DueReview[] =>
+    sessions
+        .flatMap(session => session.concepts
+            .filter(concept => isReviewDueToday(concept, now))
+            .map(concept => ({ sessionId: session.id, conceptId: concept.id, dueAt: concept.review!.dueAt })))
+        .sort((a, b) => a.dueAt - b.dueAt);
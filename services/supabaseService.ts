@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Concept } from '../types';
 
 // Initialize Supabase client
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
@@ -159,3 +160,64 @@ export const updateNoteTitle = async (
     return false;
   }
 };
+
+export interface SavedSession {
+  id: string;
+  user_id: string;
+  title: string;
+  concepts: Concept[]; // Including mastery, mistakes and review schedules
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Create or update a learning session; the app assigns session IDs so repeated saves update one row
+ */
+export const saveSession = async (
+  userId: string,
+  session: { id: string; title: string; concepts: Concept[] }
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('learning_sessions')
+      .upsert({
+        id: session.id,
+        user_id: userId,
+        title: session.title,
+        concepts: session.concepts,
+      });
+
+    if (error) {
+      console.error('Error saving session:', error);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Exception saving session:', err);
+    return false;
+  }
+};
+
+/**
+ * Get all learning sessions for a specific user, most recently used first
+ */
+export const getUserSessions = async (userId: string): Promise<SavedSession[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('learning_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching sessions:', error);
+      return [];
+    }
+
+    return (data as SavedSession[]) || [];
+  } catch (err) {
+    console.error('Exception fetching sessions:', err);
+    return [];
+  }
+};
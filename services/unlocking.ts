@@ -0,0 +1,76 @@
+/**
+ * Prerequisite Unlocking
+ *
+ * A concept becomes available once each of its dependencies reaches the unlock
+ * threshold. Availability is derived from the graph on every render rather than
+ * stored, so it follows the learner's progress; `MasteryLevel.LOCKED` on a concept
+ * only means it has not been started. Prerequisites count at their effective (decayed)
+ * level, so a dependent closes again when a prerequisite is overdue for review.
+ */
+
+import { Concept, MasteryLevel } from "../types";
+import { getEffectiveMastery } from "./spacedRepetition";
+
+export interface UnlockSettings {
+    threshold: MasteryLevel; // Level every prerequisite needs before its dependents open
+    unlockAll: boolean; // Instructor / power-user override: every concept is available
+}
+
+const UNLOCK_SETTINGS_STORAGE_KEY = 'learnforge.unlockSettings';
+
+export const DEFAULT_UNLOCK_SETTINGS: UnlockSettings = {
+    threshold: MasteryLevel.UNDERSTANDING,
+    unlockAll: false,
+};
+
+// Levels a threshold can be set to; LOCKED would make every concept available
+export const UNLOCK_THRESHOLD_OPTIONS = [
+    MasteryLevel.RECOGNITION,
+    MasteryLevel.UNDERSTANDING,
+    MasteryLevel.APPLICATION,
+    MasteryLevel.REASONING,
+];
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+    [MasteryLevel.LOCKED]: 'Not Started',
+    [MasteryLevel.RECOGNITION]: 'Recognition',
+    [MasteryLevel.UNDERSTANDING]: 'Understanding',
+    [MasteryLevel.APPLICATION]: 'Application',
+    [MasteryLevel.REASONING]: 'Reasoning',
+};
+
+export const getUnlockSettings = (): UnlockSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(UNLOCK_SETTINGS_STORAGE_KEY) || '{}');
+        return {
+            threshold: UNLOCK_THRESHOLD_OPTIONS.includes(saved.threshold) ? saved.threshold : DEFAULT_UNLOCK_SETTINGS.threshold,
+            unlockAll: saved.unlockAll === true,
+        };
+    } catch {
+        return DEFAULT_UNLOCK_SETTINGS;
+    }
+};
+
+export const saveUnlockSettings = (settings: UnlockSettings) => {
+    localStorage.setItem(UNLOCK_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Prerequisites of `concept` whose effective mastery is below the threshold; empty when the concept is available
+ */
+export const getMissingPrerequisites = (concept: Concept, allConcepts: Concept[], settings: UnlockSettings): Concept[] => {
+    if (settings.unlockAll) return [];
+    return allConcepts.filter(c => concept.dependencies.includes(c.id) && getEffectiveMastery(c) < settings.threshold);
+};
+
+/**
+ * Missing prerequisites of every locked concept, keyed by concept ID; available concepts are absent
+ */
+export const getLockedConcepts = (concepts: Concept[], settings: UnlockSettings): Map<string, Concept[]> => {
+    const locked = new Map<string, Concept[]>();
+    for (const concept of concepts) {
+        const missing = getMissingPrerequisites(concept, concepts, settings);
+        if (missing.length > 0) locked.set(concept.id, missing);
+    }
+    return locked;
+};
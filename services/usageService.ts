@@ -0,0 +1,179 @@
+/**
+ * Usage Accounting
+ *
+ * Records provider, model, tokens, latency and estimated cost for every AI call,
+ * attributed to the learning session and operation it belongs to. The ledger is kept
+ * in localStorage, one per signed-in user, and is for display only: the monthly
+ * budget is kept and enforced by the AI gateway.
+ */
+
+import { GeneratedBy, ProviderUsage } from "../types";
+import { AIOperation } from "./aiProvider";
+import { estimateCost, loadPriceTable } from "./aiCost";
+
+export interface UsageRecord {
+    id: string;
+    timestamp: number;
+    sessionId: string | null; // null for calls made outside a learning session
+    operation: AIOperation;
+    provider: string; // Provider that produced the result (the last one tried if the call failed)
+    model: string;
+    inputTokens: number; // Summed over fallback attempts and repair requests
+    outputTokens: number;
+    latencyMs: number;
+    cost: number | null; // Estimated USD; null when a model in the call has no known price
+    failed: boolean;
+}
+
+export interface UsageSession {
+    id: string;
+    title: string;
+    startedAt: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    unpricedCalls: number; // Calls whose cost could not be estimated
+}
+
+interface UsageLedger {
+    records: UsageRecord[];
+    sessions: UsageSession[];
+}
+
+const USAGE_STORAGE_KEY_PREFIX = 'learnforge.usage';
+// Oldest records are dropped beyond this, to stay well inside the localStorage quota
+const MAX_RECORDS = 5000;
+// Should match the gateway's AI_PRICES, so the panel shows what the budget is charged
+const prices = loadPriceTable(import.meta.env.VITE_AI_PRICES, 'VITE_AI_PRICES');
+
+let userId: string | null = null;
+let currentSessionId: string | null = null;
+const listeners = new Set<() => void>();
+
+const storageKey = () => `${USAGE_STORAGE_KEY_PREFIX}.${userId || 'anonymous'}`;
+
+const loadLedger = (): UsageLedger => {
+    try {
+        const ledger = JSON.parse(localStorage.getItem(storageKey()) || 'null');
+        return ledger && Array.isArray(ledger.records) ? ledger : { records: [], sessions: [] };
+    } catch {
+        return { records: [], sessions: [] };
+    }
+};
+
+const saveLedger = (ledger: UsageLedger) => {
+    try {
+        localStorage.setItem(storageKey(), JSON.stringify(ledger));
+    } catch (error) {
+        // Accounting must never break the learning flow
+        console.error('Failed to store AI usage:', error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Selects whose ledger calls are recorded in (the signed-in user's ID)
+ */
+export const setUsageUser = (id: string | null) => {
+    userId = id;
+    currentSessionId = null;
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Attributes AI calls to a learning session (by the app's session ID) until the returned
+ * function is called, which switches back to the session attributed to before
+ */
+export const attributeUsageTo = (session: { id: string; title: string }): () => void => {
+    const ledger = loadLedger();
+    if (!ledger.sessions.some(s => s.id === session.id)) {
+        ledger.sessions.push({ id: session.id, title: session.title, startedAt: Date.now() });
+        saveLedger(ledger);
+    }
+
+    const previousSessionId = currentSessionId;
+    currentSessionId = session.id;
+    return () => {
+        if (currentSessionId === session.id) currentSessionId = previousSessionId;
+    };
+};
+
+export const getCurrentUsageSessionId = () => currentSessionId;
+
+/**
+ * Adds one AI call to the ledger. `usage` lists the tokens of every provider the call tried.
+ */
+export const recordUsage = (entry: {
+    operation: AIOperation;
+    usage: ProviderUsage[];
+    generatedBy?: GeneratedBy;
+    latencyMs: number;
+    failed: boolean;
+}) => {
+    const producer = entry.generatedBy ?? entry.usage[entry.usage.length - 1];
+    const costs = entry.usage.map(usage => estimateCost(prices, usage));
+
+    const ledger = loadLedger();
+    ledger.records.push({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        sessionId: currentSessionId,
+        operation: entry.operation,
+        provider: producer?.provider ?? 'unknown',
+        model: producer?.model ?? 'unknown',
+        inputTokens: entry.usage.reduce((sum, u) => sum + u.inputTokens, 0),
+        outputTokens: entry.usage.reduce((sum, u) => sum + u.outputTokens, 0),
+        latencyMs: entry.latencyMs,
+        cost: costs.includes(null) ? null : costs.reduce((sum, cost) => sum + cost, 0),
+        failed: entry.failed,
+    });
+    ledger.records = ledger.records.slice(-MAX_RECORDS);
+    saveLedger(ledger);
+};
+
+export const getUsageRecords = (): UsageRecord[] => loadLedger().records;
+
+export const getUsageSessions = (): UsageSession[] => loadLedger().sessions;
+
+export const totalUsage = (records: UsageRecord[]): UsageTotals => ({
+    calls: records.length,
+    inputTokens: records.reduce((sum, r) => sum + r.inputTokens, 0),
+    outputTokens: records.reduce((sum, r) => sum + r.outputTokens, 0),
+    cost: records.reduce((sum, r) => sum + (r.cost ?? 0), 0),
+    unpricedCalls: records.filter(r => r.cost === null).length,
+});
+
+/**
+ * Totals per group, in order of each group's first record
+ */
+export const groupUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string): { key: string; totals: UsageTotals }[] => {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const record of records) {
+        const key = keyOf(record);
+        groups.set(key, [...(groups.get(key) || []), record]);
+    }
+    return [...groups.entries()].map(([key, group]) => ({ key, totals: totalUsage(group) }));
+};
+
+// Local calendar day, e.g. "2025-03-14"
+export const usageDay = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Notifies `listener` whenever the ledger changes; returns the unsubscribe function
+ */
+export const subscribeToUsage = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const formatCost = (cost: number) =>
+    cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
@@ -21,6 +21,19 @@ CREATE TABLE IF NOT EXISTS saved_notes (
 CREATE INDEX IF NOT EXISTS idx_saved_notes_user_id ON saved_notes(user_id);
 CREATE INDEX IF NOT EXISTS idx_saved_notes_created_at ON saved_notes(created_at DESC);
 
+-- Learning Sessions Table
+-- Concept graphs with mastery and spaced-repetition state, so reviews can span sessions
+CREATE TABLE IF NOT EXISTS learning_sessions (
+    id UUID PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    concepts JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_sessions_user_id ON learning_sessions(user_id);
+
 -- Optional: Session Analytics Table (for future use)
 CREATE TABLE IF NOT EXISTS session_analytics (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -38,6 +51,7 @@ CREATE INDEX IF NOT EXISTS idx_session_analytics_user_id ON session_analytics(us
 -- Note: For Clerk authentication, we'll disable RLS for now
 -- In production, you'd want to implement proper JWT verification
 ALTER TABLE saved_notes DISABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_sessions DISABLE ROW LEVEL SECURITY;
 
 -- Commented out RLS policies - enable these when you set up proper Clerk JWT integration
 -- ALTER TABLE saved_notes ENABLE ROW LEVEL SECURITY;
@@ -76,3 +90,8 @@ CREATE TRIGGER update_saved_notes_updated_at
     BEFORE UPDATE ON saved_notes
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_learning_sessions_updated_at
+    BEFORE UPDATE ON learning_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -13,6 +13,74 @@ export interface Concept {
   dependencies: string[]; // IDs of prerequisite concepts
   masteryLevel: MasteryLevel;
   mistakes: MistakeRecord[];
+  sources?: SourceReference[]; // Where in the material the concept is explained
+  generatedBy?: GeneratedBy;
+  review?: ReviewSchedule; // Spaced-repetition state, from the first time the concept is mastered
+}
+
+export interface ReviewRecord {
+  timestamp: number;
+  correct: boolean;
+  level: MasteryLevel; // Level the review question was asked at
+}
+
+// SM-2 scheduling state of a mastered concept
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  dueAt: number;
+  lastReviewedAt: number;
+  history: ReviewRecord[];
+}
+
+// Which AI provider and model produced a result
+export interface GeneratedBy {
+  provider: string;
+  model: string;
+  promptVersion?: string; // Prompt template that produced the result, e.g. "question@1"
+}
+
+// Tokens consumed by one or more model requests
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Tokens one provider consumed while serving a request, including failed attempts and repairs
+export interface ProviderUsage extends TokenUsage {
+  provider: string;
+  model: string;
+}
+
+// Position of a piece of content inside its original file or video
+export interface SourceLocation {
+  page?: number;
+  slide?: number;
+  chapter?: number;
+  heading?: string;
+  timestampSeconds?: number;
+}
+
+// Start of a caption line inside a video segment's text
+export interface TimelineCue {
+  charIndex: number;
+  timestampSeconds: number;
+}
+
+// A chunk of uploaded material, as sent to the AI layer
+export interface SourceSegment extends SourceLocation {
+  id: string; // Short reference the model cites back (e.g. 'S3')
+  sourceName: string; // File name, video or page title
+  sourceUrl?: string; // Canonical link for web and video sources
+  text: string;
+  timeline?: TimelineCue[]; // Video segments only
+}
+
+export interface SourceReference extends SourceLocation {
+  sourceName: string;
+  sourceUrl?: string;
+  excerpt: string; // Short quote from the material
 }
 
 export interface MistakeRecord {
@@ -21,7 +89,22 @@ export interface MistakeRecord {
   question: string;
   userAnswer: string;
   correction: string;
-  misunderstandingType: string;
+  misunderstandingType?: string; // The MisconceptionType the evaluator classified; records from older sessions say "Conceptual"
+  relatedConcept?: string; // Title of the concept involved in the misconception
+}
+
+// Taxonomy of what went wrong in an incorrect answer
+export enum MisconceptionType {
+  CONFUSED_WITH_OTHER_CONCEPT = 'CONFUSED_WITH_OTHER_CONCEPT',
+  MISSING_PREREQUISITE = 'MISSING_PREREQUISITE',
+  PARTIAL_DEFINITION = 'PARTIAL_DEFINITION',
+  PROCEDURAL_ERROR = 'PROCEDURAL_ERROR',
+  MISREAD_QUESTION = 'MISREAD_QUESTION'
+}
+
+export interface Misconception {
+  type: MisconceptionType;
+  conceptTitle?: string; // The concept it was confused with, or the missing prerequisite
 }
 
 export interface LearningSession {
@@ -47,12 +130,38 @@ export interface Question {
   type: QuestionType;
   options?: string[]; // For MCQ
   correctAnswerContext?: string; // Hidden context for the AI to validate against
+  rubric?: RubricCriterion[]; // Absent on questions generated before rubrics existed
+  generatedBy?: GeneratedBy;
+}
+
+// One key point a complete answer makes
+export interface RubricCriterion {
+  id: string; // e.g. 'k1', referenced by the grader's scores
+  description: string;
+  weight: number; // Relative to the other criteria of the question
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  score: number; // 0-1; partial credit for a point made incompletely
+  met: boolean;
+  comment?: string; // What the answer did or did not say about this point
 }
 
 export interface AssessmentResult {
   isCorrect: boolean;
   explanation: string;
+  misconception?: Misconception; // Incorrect answers only
+  score?: number; // 0-1 weighted rubric score, when the question has a rubric
+  criteria?: CriterionScore[]; // One per rubric criterion, in rubric order
+  confidence?: number; // 0-1, how sure the grader is of its scores
   conceptUpdate?: {
     masteryLevel: MasteryLevel;
   };
+  generatedBy?: GeneratedBy;
+}
+
+export interface UnifiedSummary {
+  text: string; // Markdown study notes
+  generatedBy?: GeneratedBy;
 }
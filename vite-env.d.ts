@@ -1,10 +1,15 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-    readonly VITE_GEMINI_API_KEY: string;
     readonly VITE_CLERK_PUBLISHABLE_KEY: string;
     readonly VITE_SUPABASE_URL: string;
     readonly VITE_SUPABASE_ANON_KEY: string;
+    readonly VITE_PROXY_URL?: string;
+    readonly VITE_AI_MOCK?: string;
+    readonly VITE_MOCK_AI_LATENCY_MS?: string;
+    readonly VITE_MOCK_AI_FAILURE_RATE?: string;
+    readonly VITE_MOCK_AI_FAIL_OPERATIONS?: string;
+    readonly VITE_AI_PRICES?: string;
 }
 
 interface ImportMeta {